@@ -0,0 +1,210 @@
+/**
+ * Jira Attachment Sync
+ *
+ * Downloads the files attached to stored issues into a local blob store and
+ * extracts text from the formats we can read without extra tooling (plain
+ * text, CSV/TSV, XML, JSON, patches, ...). The text is kept in the
+ * `attachments` table; the downloader folds it into issues_fts so `fts`
+ * matches attachment content.
+ *
+ * Blobs are named by SHA-256 (`<store>/ab/abcdef...`), so the same file
+ * attached to several issues is stored once. Jira attachments never change
+ * after upload, so a stored attachment is not fetched again.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { extname, join } from "path";
+import { JiraFetchError, jiraGet, type JiraConnection } from "./fetch";
+
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Extracted text beyond this is dropped - enough for search and excerpts
+const MAX_TEXT_CHARS = 200_000;
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".text", ".md", ".csv", ".tsv", ".xml", ".xsd", ".json", ".ndjson",
+  ".html", ".htm", ".patch", ".diff", ".fsh", ".yaml", ".yml", ".properties",
+  ".ini", ".sql", ".log", ".map", ".shex", ".ttl",
+]);
+
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/fhir+json",
+  "application/fhir+xml",
+  "application/x-patch",
+  "application/x-diff",
+  "application/x-yaml",
+]);
+
+export interface AttachmentSyncResult {
+  stored: number;
+  skipped: number;
+  failed: number;
+  touchedKeys: Set<string>;  // issues whose attachment text changed
+}
+
+/**
+ * Downloaded attachments, kept outside the derived tables so a reindex keeps
+ * them. `status` is 'stored', 'skipped' (over the size limit) or 'failed'.
+ */
+export function createAttachmentTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS attachments (
+      id TEXT PRIMARY KEY,
+      issue_key TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      mime_type TEXT,
+      size INTEGER,
+      sha256 TEXT,
+      text TEXT,
+      status TEXT NOT NULL,
+      error TEXT,
+      fetched_at TEXT NOT NULL
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_issue ON attachments(issue_key)`);
+}
+
+/** Carry attachment rows over from another database (e.g. live -> staging) */
+export function copyAttachmentRows(db: Database, fromPath: string) {
+  if (!existsSync(fromPath)) return;
+  const source = new Database(fromPath, { readonly: true });
+  const hasRows = source.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'attachments'`).get();
+  source.close();
+  if (!hasRows) return;
+
+  db.exec(`ATTACH DATABASE '${fromPath.replace(/'/g, "''")}' AS previous`);
+  db.exec(`INSERT OR IGNORE INTO attachments SELECT * FROM previous.attachments`);
+  db.exec(`DETACH DATABASE previous`);
+}
+
+/** Text of an issue's attachments for the FTS index, one block per file */
+export function attachmentsText(db: Database, key: string): string {
+  const rows = db.query(`
+    SELECT filename, text FROM attachments
+    WHERE issue_key = ? AND text IS NOT NULL
+    ORDER BY filename
+  `).all(key) as any[];
+  return rows.map(r => `${r.filename}\n${r.text}`).join("\n");
+}
+
+export function blobPath(storeDir: string, sha256: string): string {
+  return join(storeDir, sha256.slice(0, 2), sha256);
+}
+
+function isTextFormat(filename: string, mimeType: string | null): boolean {
+  const mime = (mimeType || "").split(";")[0].trim().toLowerCase();
+  if (mime.startsWith("text/") || TEXT_MIME_TYPES.has(mime)) return true;
+  if (mime.endsWith("+json") || mime.endsWith("+xml")) return true;
+  return TEXT_EXTENSIONS.has(extname(filename).toLowerCase());
+}
+
+/** Readable text for supported formats, null for binary files */
+export function extractText(filename: string, mimeType: string | null, bytes: Uint8Array): string | null {
+  if (!isTextFormat(filename, mimeType)) return null;
+
+  let text = new TextDecoder("utf-8").decode(bytes);
+  // A text extension on a binary file (e.g. a zipped export renamed .xml)
+  if (text.slice(0, 4096).includes("\u0000")) return null;
+
+  text = text.replace(/^\uFEFF/, "");
+  const ext = extname(filename).toLowerCase();
+  if (ext === ".html" || ext === ".htm" || /text\/html/i.test(mimeType || "")) {
+    text = text
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+  }
+  text = text.replace(/\r\n?/g, "\n").replace(/[ \t]+\n/g, "\n").trim();
+  return text.slice(0, MAX_TEXT_CHARS);
+}
+
+/** Attachments listed in stored issues that still need downloading */
+function pendingAttachments(db: Database, maxBytes: number): any[] {
+  return db.query(`
+    SELECT i.key AS issue_key,
+           json_extract(a.value, '$.id') AS id,
+           json_extract(a.value, '$.filename') AS filename,
+           json_extract(a.value, '$.mime_type') AS mime_type,
+           json_extract(a.value, '$.size') AS size,
+           json_extract(a.value, '$.url') AS url
+    FROM issues i, json_each(i.data, '$.attachments') a
+    LEFT JOIN attachments s ON s.id = json_extract(a.value, '$.id')
+    WHERE json_extract(a.value, '$.id') IS NOT NULL
+      AND (s.id IS NULL
+           OR s.status = 'failed'
+           OR (s.status = 'skipped' AND s.size <= $max))
+    ORDER BY i.key
+  `).all({ $max: maxBytes }) as any[];
+}
+
+/**
+ * Download every pending attachment into storeDir and record it. Auth
+ * failures stop the sync (the rest is picked up next time); other failures
+ * are recorded per attachment and retried on the next sync.
+ */
+export async function syncAttachments(
+  db: Database,
+  conn: JiraConnection,
+  storeDir: string,
+  maxBytes = DEFAULT_MAX_ATTACHMENT_BYTES
+): Promise<AttachmentSyncResult> {
+  const pending = pendingAttachments(db, maxBytes);
+  const result: AttachmentSyncResult = { stored: 0, skipped: 0, failed: 0, touchedKeys: new Set() };
+  console.log(`\nSyncing attachments: ${pending.length} to fetch into ${storeDir}`);
+  if (pending.length === 0) return result;
+
+  const record = db.prepare(`
+    INSERT OR REPLACE INTO attachments
+      (id, issue_key, filename, mime_type, size, sha256, text, status, error, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let done = 0;
+  for (const att of pending) {
+    const now = new Date().toISOString();
+    const save = (sha256: string | null, text: string | null, status: string, error: string | null) =>
+      record.run(att.id, att.issue_key, att.filename, att.mime_type, att.size, sha256, text, status, error, now);
+
+    if (att.size > maxBytes) {
+      save(null, null, "skipped", `larger than ${maxBytes} bytes`);
+      result.skipped++;
+    } else {
+      try {
+        // Content URLs point at the Jira host the issue came from; fetch them via the connection
+        const url = new URL(att.url);
+        const response = await jiraGet(conn, url.pathname + url.search);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        const sha256 = new Bun.CryptoHasher("sha256").update(bytes).digest("hex");
+        const path = blobPath(storeDir, sha256);
+        if (!existsSync(path)) {
+          mkdirSync(join(storeDir, sha256.slice(0, 2)), { recursive: true });
+          await Bun.write(path, bytes);
+        }
+        const text = extractText(att.filename, att.mime_type, bytes);
+        save(sha256, text, "stored", null);
+        if (text) result.touchedKeys.add(att.issue_key);
+        result.stored++;
+      } catch (error: any) {
+        if (!(error instanceof JiraFetchError)) throw error;
+        if (error.kind === "auth") {
+          console.error(`\n❌ Session expired during attachment sync; ${pending.length - done} attachments left for next time.`);
+          break;
+        }
+        save(null, null, "failed", error.message.slice(0, 500));
+        result.failed++;
+      }
+    }
+
+    done++;
+    process.stdout.write(`\r  ${done}/${pending.length}`);
+  }
+
+  console.log(`\n   Stored: ${result.stored}, skipped (too large): ${result.skipped}, failed: ${result.failed}`);
+  return result;
+}
@@ -9,13 +9,53 @@
  *   bun run jira/download.ts --cookie-file cookies.txt
  *   bun run jira/download.ts --cookie-file cookies.txt --resume
  *   bun run jira/download.ts --cookie-file cookies.txt --since-last
+ *   bun run jira/download.ts --cookie-file cookies.txt --project FHIR --project BALLOT
+ *   bun run jira/download.ts --cookie-file cookies.txt --since-last --attachments
+ *   bun run jira/download.ts --reindex
  */
 
 import { Database } from "bun:sqlite";
 import { parseArgs } from "util";
 import { existsSync } from "fs";
+import { dirname, join } from "path";
+import { DEFAULT_RETRY_POLICY, JiraFetchError, jiraGet, type JiraConnection } from "./fetch";
+import {
+  DEFAULT_MAX_ATTACHMENT_BYTES,
+  attachmentsText,
+  copyAttachmentRows,
+  createAttachmentTable,
+  syncAttachments,
+} from "./attachments";
+import { wikiToText } from "./wiki";
+import { loadFieldMap, type FieldMap } from "./field-map";
+import { projectSql, SCHEMA_VERSION } from "./schema";
+import { FTS_TOKENIZER, fhirTerms } from "../shared/fhir-tokens";
+import {
+  downloaderVersion,
+  latestVersion,
+  runMigrations,
+  setMeta,
+  type Migration,
+} from "../shared/meta";
+import {
+  copyIngestRuns,
+  createIngestTable,
+  finishIngestRun,
+  saveIngestRun,
+  startIngestRun,
+  type IngestRun,
+  type RowOutcome,
+} from "../shared/ingest";
+import {
+  checkCompleteness,
+  promoteStagingDatabase,
+  removeDatabaseFiles,
+  stagingPath,
+} from "../shared/staging";
+import { copyEmbeddingRows, createEmbeddingTable } from "../shared/embeddings";
 
-const BASE_URL = "https://jira.hl7.org/rest/api/2/search";
+const BASE_URL = "https://jira.hl7.org";
+const DEFAULT_PROJECTS = ["FHIR"];
 
 // Fetch all fields plus issuelinks (not included in *all for some reason)
 const FIELDS = "*all,issuelinks";
@@ -23,7 +63,15 @@ const FIELDS = "*all,issuelinks";
 interface JiraIssue {
   key: string;
   id: string;
+  self?: string;
   fields: Record<string, any>;
+  changelog?: {
+    histories: Array<{
+      author?: { displayName?: string; name?: string };
+      created: string;
+      items: Array<{ field: string; fromString: string | null; toString: string | null }>;
+    }>;
+  };
 }
 
 interface SearchResponse {
@@ -34,76 +82,11 @@ interface SearchResponse {
   names?: Record<string, string>;
 }
 
-// Map Jira custom field IDs to semantic names
-const FIELD_MAP: Record<string, string> = {
-  // Ballot & Voting
-  "customfield_10902": "selected_ballot",
-  "customfield_11402": "grouping",
-  "customfield_10510": "resolution_vote",
-  "customfield_10525": "vote_date",
-  
-  // Spec Categorization
-  "customfield_11302": "specification",
-  "customfield_11808": "raised_in_version",
-  "customfield_11807": "applied_for_version",
-  "customfield_11400": "work_group",
-  "customfield_11300": "related_artifacts",
-  
-  // Resolution Details
-  "customfield_10618": "resolution_description",
-  "customfield_10512": "change_category",
-  "customfield_10511": "change_impact",
-  "customfield_10702": "outstanding_negatives",
-  "customfield_10704": "pre_applied",
-  
-  // Links & References
-  "customfield_10612": "related_url",
-  "customfield_11301": "related_pages",
-  "customfield_10518": "related_sections",
-  "customfield_14905": "related_issues",
-  "customfield_14909": "duplicate_of",
-  
-  // Participation
-  "customfield_11000": "in_person_requested_by",
-};
+// Changelog fields kept in issue_history (the workflow transitions)
+const HISTORY_FIELDS = new Set(["status", "resolution"]);
 
-// Fields to skip (system/UI/junk)
-const SKIP_FIELDS = new Set([
-  "customfield_11200",  // Development - internal Jira stuff
-  "customfield_14904",  // Block Vote - HTML link, redundant
-  "customfield_14600",  // emaildomainsearcher
-  "customfield_10000",  // Rank
-  "customfield_10500",  // issueFunction
-  "customfield_10001",  // Sprint
-  "customfield_10002",  // Epic Link
-  "customfield_14000",  // Flagged
-  "customfield_14400",  // Team
-  "customfield_14401",  // Parent Link
-  "customfield_14402",  // Target start
-  "customfield_14403",  // Target end
-  "customfield_14404",  // Original story points
-  "customfield_11401",  // Scheduling
-  "customfield_11101",  // Message - Vote Negative
-  "customfield_11102",  // Message - Vote Affirmative
-  "customfield_11103",  // Message - Issue Guidance Comment
-  "customfield_11105",  // Message - Issue Guidance Technical Correction
-  "customfield_11106",  // Message - Issue Guidance Change Request
-  "customfield_11600",  // Message - Vote Remove
-  "customfield_11601",  // Message - Vote Withdraw
-  "customfield_11602",  // Message - Vote Retract
-  "customfield_11800",  // Message - Transition Reopen
-  "customfield_11801",  // Message - Transition Non-duplicate
-  "customfield_11803",  // Message - Transition Duplicate
-  "customfield_14906",  // Message - Manage related issues
-  "customfield_14907",  // Duplicate Voted Issue
-  "customfield_14908",  // Message - Transition Voted Duplicate
-  "workratio",
-  "watches",
-  "lastViewed",
-  "archiveddate",
-  "archivedby",
-  "project",  // Always FHIR
-]);
+// Jira custom field IDs -> semantic names, from jira/field-map.json (or --field-map)
+let fieldMap: FieldMap = loadFieldMap();
 
 function parseCookies(cookieStr: string): string {
   return cookieStr.trim();
@@ -111,32 +94,37 @@ function parseCookies(cookieStr: string): string {
 
 async function fetchBatch(
   startAt: number,
-  cookies: string,
+  conn: JiraConnection,
   jql: string,
-  maxResults = 100
+  maxResults = 100,
+  fields = FIELDS,
+  expand = "names,changelog"
 ): Promise<SearchResponse> {
   const params = new URLSearchParams({
     jql,
     startAt: startAt.toString(),
     maxResults: maxResults.toString(),
-    fields: FIELDS,
-    expand: "names",
+    fields,
+    expand,
   });
 
-  const response = await fetch(`${BASE_URL}?${params}`, {
-    headers: {
-      Accept: "application/json",
-      Cookie: cookies,
-      "User-Agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36",
-    },
-  });
+  const response = await jiraGet(conn, `/rest/api/2/search?${params}`);
+  return response.json();
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`);
+/**
+ * Look up an issue by key. Jira redirects moved issues to their new key;
+ * returns that key, or null when the issue no longer exists.
+ */
+async function fetchCurrentKey(key: string, conn: JiraConnection): Promise<string | null> {
+  try {
+    const response = await jiraGet(conn, `/rest/api/2/issue/${encodeURIComponent(key)}?fields=project`);
+    const issue = await response.json() as { key?: string };
+    return issue.key || null;
+  } catch (error) {
+    if (error instanceof JiraFetchError && error.status === 404) return null;
+    throw error;
   }
-
-  return response.json();
 }
 
 /** Extract simple value from Jira field objects */
@@ -179,11 +167,15 @@ function extractValue(val: any): any {
 /** Transform raw Jira issue to clean JSON document */
 function transformIssue(raw: JiraIssue): Record<string, any> {
   const f = raw.fields;
+  // Browse URL on whichever server returned the issue
+  const origin = raw.self ? new URL(raw.self).origin : "https://jira.hl7.org";
   const doc: Record<string, any> = {
     key: raw.key,
-    url: `https://jira.hl7.org/browse/${raw.key}`,
+    url: `${origin}/browse/${raw.key}`,
   };
   
+  doc.project = f.project?.key || raw.key.split("-")[0];
+  
   // Standard fields with explicit mapping
   doc.summary = f.summary || null;
   doc.description = f.description || null;
@@ -208,7 +200,9 @@ function transformIssue(raw: JiraIssue): Record<string, any> {
   // Attachments
   if (f.attachment?.length > 0) {
     doc.attachments = f.attachment.map((a: any) => ({
+      id: a.id,
       filename: a.filename,
+      mime_type: a.mimeType,
       size: a.size,
       url: a.content,
       created: a.created,
@@ -219,6 +213,7 @@ function transformIssue(raw: JiraIssue): Record<string, any> {
   const comments = f.comment?.comments || [];
   if (comments.length > 0) {
     doc.comments = comments.map((c: any) => ({
+      id: c.id,
       author: extractValue(c.author),
       body: c.body,
       created_at: c.created,
@@ -252,34 +247,98 @@ function transformIssue(raw: JiraIssue): Record<string, any> {
   }
   
   // Custom fields - map to semantic names
-  for (const [jiraField, semanticName] of Object.entries(FIELD_MAP)) {
+  for (const [jiraField, mapped] of Object.entries(fieldMap.fields)) {
     const val = extractValue(f[jiraField]);
     if (val !== null && val !== undefined) {
-      doc[semanticName] = val;
+      doc[mapped.name] = val;
     }
   }
   
   return doc;
 }
 
+/** Pull workflow transitions (status/resolution changes) out of the changelog */
+function extractHistory(raw: JiraIssue): Array<Record<string, any>> {
+  const entries: Array<Record<string, any>> = [];
+  for (const history of raw.changelog?.histories || []) {
+    for (const item of history.items || []) {
+      if (!HISTORY_FIELDS.has(item.field)) continue;
+      entries.push({
+        changed_at: history.created,
+        author: history.author?.displayName || null,
+        author_username: history.author?.name || null,
+        field: item.field,
+        from_value: item.fromString,
+        to_value: item.toString,
+      });
+    }
+  }
+  return entries.sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+}
+
 function createDatabase(dbPath: string): Database {
   const db = new Database(dbPath);
   
   db.exec("PRAGMA journal_mode = WAL");
   
+  db.exec("DROP TABLE IF EXISTS raw_issues");
+  db.exec("DROP TABLE IF EXISTS download_checkpoint");
+  db.exec("DROP TABLE IF EXISTS issue_tombstones");
+  createRawTable(db);
+  createCheckpointTable(db);
+  createTombstoneTable(db);
+  createAttachmentTable(db);
+  createIngestTable(db);
+  createIssueTables(db);
+  createEmbeddingTable(db);
+  setMeta(db, { schema_version: SCHEMA_VERSION, created_at: new Date().toISOString() });
+
+  return db;
+}
+
+/**
+ * Raw REST payloads (gzip-compressed JSON), kept so the issues/issues_fts
+ * tables can be rebuilt offline when the field mapping changes.
+ */
+function createRawTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS raw_issues (
+      key TEXT PRIMARY KEY,
+      payload BLOB NOT NULL,
+      fetched_at TEXT NOT NULL
+    )
+  `);
+}
+
+/** (Re)create the derived issue tables - drops any existing contents */
+function createIssueTables(db: Database) {
+  db.exec("DROP TABLE IF EXISTS comments_fts");
+  db.exec("DROP TABLE IF EXISTS issue_comments");
+  db.exec("DROP TABLE IF EXISTS issue_history");
+  db.exec("DROP TABLE IF EXISTS issue_values");
+  db.exec("DROP TABLE IF EXISTS issue_relations");
   db.exec("DROP TABLE IF EXISTS issues_fts");
   db.exec("DROP TABLE IF EXISTS issues");
 
-  // Simple schema: key + JSON document
+  // Simple schema: key + JSON document, plus the ingest run that last changed it
   db.exec(`
     CREATE TABLE issues (
       key TEXT PRIMARY KEY,
-      data JSON NOT NULL
+      data JSON NOT NULL,
+      ingest_run_id INTEGER
     )
   `);
 
-  // FTS5 index on searchable text fields
-  // We'll populate this from the JSON
+  createFtsTable(db);
+  createCommentTables(db);
+  createHistoryTable(db);
+  createValueTable(db);
+  createRelationTable(db);
+}
+
+function createFtsTable(db: Database) {
+  // FTS5 index on searchable text fields, populated from the JSON. The table
+  // keeps its own copy of the text so snippet() and highlight() work.
   db.exec(`
     CREATE VIRTUAL TABLE issues_fts USING fts5(
       key,
@@ -291,27 +350,322 @@ function createDatabase(dbPath: string): Database {
       resolution_description,
       labels,
       comments_text,
-      content='',
-      contentless_delete=1
+      attachments_text,
+      fhir_terms,
+      tokenize="${FTS_TOKENIZER}"
     )
   `);
+}
+
+/**
+ * One row per comment, so searches can point at the comment that matched
+ * rather than the whole issue. `position` is the comment's 1-based place in
+ * the issue, as used by `snapshot --comment N`.
+ */
+function createCommentTables(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issue_comments (
+      id INTEGER PRIMARY KEY,
+      issue_key TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      comment_id TEXT,
+      author TEXT,
+      author_username TEXT,
+      created_at TEXT,
+      text TEXT NOT NULL,
+      fhir_terms TEXT
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_comments_issue ON issue_comments(issue_key, position)`);
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS comments_fts USING fts5(
+      author,
+      text,
+      fhir_terms,
+      content='issue_comments',
+      content_rowid='id',
+      tokenize="${FTS_TOKENIZER}"
+    )
+  `);
+}
+
+/** Status/resolution transitions from the Jira changelog, one row per change */
+function createHistoryTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issue_history (
+      key TEXT NOT NULL,
+      changed_at TEXT NOT NULL,
+      author TEXT,
+      author_username TEXT,
+      field TEXT NOT NULL,
+      from_value TEXT,
+      to_value TEXT
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_key ON issue_history(key, changed_at)`);
+}
+
+// Document fields that search filters match value by value
+const VALUE_FIELDS = ["status", "change_impact", "selected_ballot", "raised_in_version", "work_group", "related_artifacts"];
+
+// People, stored under both display name and username: reporter, assignee and
+// (from the comments) commenter
+const PERSON_FIELDS = ["reporter", "assignee"];
+
+/**
+ * One row per value of each VALUE_FIELDS field, so `--version R4` can match
+ * the element R4 exactly (not R4B) through an index instead of LIKE over JSON.
+ * Values compare case-insensitively.
+ */
+function createValueTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issue_values (
+      field TEXT NOT NULL,
+      value TEXT NOT NULL COLLATE NOCASE,
+      key TEXT NOT NULL,
+      PRIMARY KEY (field, value, key)
+    ) WITHOUT ROWID
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_values_key ON issue_values(key)`);
+}
+
+/**
+ * Links between issues from issue_links, related_issues, duplicate_of and
+ * subtasks, one row per link as stored on `key`, indexed both ways so the
+ * graph command can also find the issues that point at an issue.
+ */
+function createRelationTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issue_relations (
+      key TEXT NOT NULL,
+      target_key TEXT NOT NULL,
+      kind TEXT NOT NULL,      -- link, related, duplicate_of or subtask
+      relation TEXT NOT NULL,  -- as read from key: "relates to", "is duplicated by", "duplicate of", ...
+      inward INTEGER NOT NULL DEFAULT 0  -- Jira link seen from its inward end
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_relations_key ON issue_relations(key)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_relations_target ON issue_relations(target_key)`);
+}
+
+/**
+ * Schema changes since the original issues + issues_fts layout (v1). Each
+ * step must also cope with databases built by code in between versions.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "raw payloads, status history, checkpoint, tombstone and attachment tables",
+    up(db) {
+      createRawTable(db);
+      createHistoryTable(db);
+      createCheckpointTable(db);
+      createTombstoneTable(db);
+      createAttachmentTable(db);
+    },
+  },
+  {
+    version: 3,
+    description: "issues_fts keyed by issues rowid, with attachment text",
+    rebuild: ["issues_fts"],
+  },
+  {
+    version: 4,
+    description: "ingest_runs ledger and issues.ingest_run_id",
+    up(db) {
+      createIngestTable(db);
+      const columns = db.query("PRAGMA table_info(issues)").all() as any[];
+      if (!columns.some(c => c.name === "ingest_run_id")) {
+        db.exec(`ALTER TABLE issues ADD COLUMN ingest_run_id INTEGER`);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "issue_comments table with its own FTS index",
+    rebuild: ["issue_comments"],
+  },
+  {
+    version: 6,
+    description: "issues_fts stores its text, for snippets",
+    rebuild: ["issues_fts"],
+  },
+  {
+    version: 7,
+    description: "FHIR-aware tokenization for issues_fts and comments_fts",
+    rebuild: ["issues_fts", "issue_comments"],
+  },
+  {
+    version: 8,
+    description: "issue_values table for exact filter matching",
+    rebuild: ["issue_values"],
+  },
+  {
+    version: 9,
+    description: "reporters, assignees and commenters in issue_values",
+    rebuild: ["issue_values"],
+  },
+  {
+    version: 10,
+    description: "issue_relations table for the graph command",
+    rebuild: ["issue_relations"],
+  },
+  {
+    version: 11,
+    description: "embeddings table for --semantic and --hybrid search",
+    up: createEmbeddingTable,
+  },
+];
 
+// Derived tables that migrations can ask to have refilled from the stored documents
+const REBUILDERS: Record<string, (db: Database) => void> = {
+  issues_fts: rebuildFtsTable,
+  issue_comments: rebuildCommentTables,
+  issue_values: rebuildValueTable,
+  issue_relations: rebuildRelationTable,
+};
+
+/** Refill issue_comments and comments_fts from the stored documents */
+function rebuildCommentTables(db: Database) {
+  db.exec("DROP TABLE IF EXISTS comments_fts");
+  db.exec("DROP TABLE IF EXISTS issue_comments");
+  createCommentTables(db);
+  for (const row of db.query("SELECT data FROM issues").iterate() as Iterable<any>) {
+    writeCommentEntries(db, JSON.parse(row.data));
+  }
+}
+
+/** Refill issue_relations from the stored documents */
+function rebuildRelationTable(db: Database) {
+  db.exec("DROP TABLE IF EXISTS issue_relations");
+  createRelationTable(db);
+  for (const row of db.query("SELECT data FROM issues").iterate() as Iterable<any>) {
+    writeRelationEntries(db, JSON.parse(row.data));
+  }
+}
+
+/** Refill issue_values from the stored documents */
+function rebuildValueTable(db: Database) {
+  db.exec("DROP TABLE IF EXISTS issue_values");
+  createValueTable(db);
+  for (const row of db.query("SELECT data FROM issues").iterate() as Iterable<any>) {
+    writeValueEntries(db, JSON.parse(row.data));
+  }
+}
+
+/** Rebuild just the FTS table from the stored documents */
+function rebuildFtsTable(db: Database) {
+  db.exec("DROP TABLE IF EXISTS issues_fts");
+  createFtsTable(db);
+  for (const row of db.query("SELECT data FROM issues").iterate() as Iterable<any>) {
+    writeFtsEntry(db, JSON.parse(row.data));
+  }
+}
+
+if (latestVersion(MIGRATIONS) !== SCHEMA_VERSION) {
+  throw new Error(`jira/schema.ts says v${SCHEMA_VERSION} but migrations end at v${latestVersion(MIGRATIONS)}`);
+}
+
+/** Open an existing database, migrated to the current schema (also used by embed.ts) */
+export function openDatabaseForResume(dbPath: string): Database {
+  const db = new Database(dbPath);
+  runMigrations(db, MIGRATIONS, REBUILDERS);
   return db;
 }
 
-function openDatabaseForResume(dbPath: string): Database {
-  return new Database(dbPath);
+/** Where a download stopped - one row, saved in the same transaction as each batch */
+interface Checkpoint {
+  mode: "full" | "since-last";
+  jql: string;                  // filter part of the query, without ORDER BY
+  last_key: string | null;      // last issue stored
+  last_updated: string | null;  // its updated_at (the since-last cursor)
+  start_at: number;             // issues processed so far
+  pending_projects: string[];   // full downloads: projects still to start after this one
+}
+
+const CHECKPOINT_ORDER: Record<Checkpoint["mode"], string> = {
+  full: "ORDER BY key ASC",
+  "since-last": "ORDER BY updated ASC, key ASC",
+};
+
+function createCheckpointTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS download_checkpoint (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      mode TEXT NOT NULL,
+      jql TEXT NOT NULL,
+      last_key TEXT,
+      last_updated TEXT,
+      start_at INTEGER NOT NULL,
+      pending_projects TEXT NOT NULL DEFAULT '[]',
+      saved_at TEXT NOT NULL
+    )
+  `);
+  // Checkpoints saved before multi-project support lack the column
+  const columns = db.query("PRAGMA table_info(download_checkpoint)").all() as any[];
+  if (!columns.some(c => c.name === "pending_projects")) {
+    db.exec(`ALTER TABLE download_checkpoint ADD COLUMN pending_projects TEXT NOT NULL DEFAULT '[]'`);
+  }
 }
 
-function getResumePoint(db: Database): number {
-  const result = db.query("SELECT COUNT(*) as cnt FROM issues").get() as any;
-  return result?.cnt || 0;
+function loadCheckpoint(db: Database): Checkpoint | null {
+  const row = db.query(`
+    SELECT mode, jql, last_key, last_updated, start_at, pending_projects FROM download_checkpoint WHERE id = 1
+  `).get() as any;
+  if (!row) return null;
+  return { ...row, pending_projects: JSON.parse(row.pending_projects) };
 }
 
-function getLastUpdatedTimestamp(db: Database): string | null {
+function saveCheckpoint(db: Database, cp: Checkpoint) {
+  db.prepare(`
+    INSERT OR REPLACE INTO download_checkpoint
+      (id, mode, jql, last_key, last_updated, start_at, pending_projects, saved_at)
+    VALUES (1, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    cp.mode, cp.jql, cp.last_key, cp.last_updated, cp.start_at,
+    JSON.stringify(cp.pending_projects), new Date().toISOString()
+  );
+}
+
+function clearCheckpoint(db: Database) {
+  db.exec("DELETE FROM download_checkpoint");
+}
+
+/**
+ * JQL that picks up right after the last stored issue. Full downloads continue
+ * by key (one project at a time, since keys only compare within a project);
+ * incremental downloads continue from the last updated timestamp (with the
+ * same 1h overlap as --since-last), so issues created or deleted upstream in
+ * the meantime do not shift the position.
+ */
+function continuationJql(cp: Checkpoint): string {
+  const order = CHECKPOINT_ORDER[cp.mode];
+  if (cp.mode === "full" && cp.last_key) {
+    return `(${cp.jql}) AND key > "${cp.last_key}" ${order}`;
+  }
+  if (cp.mode === "since-last" && cp.last_updated) {
+    const since = formatJqlDate(subtractHours(cp.last_updated, 1));
+    return `(${cp.jql}) AND updated >= "${since}" ${order}`;
+  }
+  return `${cp.jql} ${order}`;
+}
+
+function projectClause(projects: string[]): string {
+  return projects.length === 1
+    ? `project = "${projects[0]}"`
+    : `project in (${projects.map(p => `"${p}"`).join(", ")})`;
+}
+
+/** Projects already present in a database */
+function getStoredProjects(db: Database): string[] {
+  const rows = db.query(`SELECT DISTINCT ${projectSql()} AS project FROM issues ORDER BY project`).all() as any[];
+  return rows.map(r => r.project);
+}
+
+function getLastUpdatedTimestamp(db: Database, project: string): string | null {
   const result = db
-    .query("SELECT MAX(json_extract(data, '$.updated_at')) as updated_at FROM issues")
-    .get() as any;
+    .query(`SELECT MAX(json_extract(data, '$.updated_at')) as updated_at FROM issues WHERE ${projectSql()} = ?`)
+    .get(project) as any;
   return result?.updated_at || null;
 }
 
@@ -337,40 +691,192 @@ function subtractHours(timestamp: string, hours: number): Date {
   return date;
 }
 
-function insertIssue(db: Database, issue: JiraIssue) {
+function insertIssue(db: Database, issue: JiraIssue, run: IngestRun) {
+  storeRawIssue(db, issue);
+  run[indexIssue(db, issue, run.id)]++;
+  // Seen upstream again (e.g. moved back), so no longer a tombstone
+  db.prepare(`DELETE FROM issue_tombstones WHERE key = ?`).run(issue.key);
+}
+
+function storeRawIssue(db: Database, issue: JiraIssue) {
+  const payload = Bun.gzipSync(Buffer.from(JSON.stringify(issue)));
+  db.prepare(`INSERT OR REPLACE INTO raw_issues (key, payload, fetched_at) VALUES (?, ?, ?)`)
+    .run(issue.key, payload, new Date().toISOString());
+}
+
+/**
+ * Issues that disappeared from the project upstream. Kept outside the derived
+ * tables so tombstones survive a reindex; search hides these issues by default.
+ */
+function createTombstoneTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issue_tombstones (
+      key TEXT PRIMARY KEY,
+      status TEXT NOT NULL,  -- 'deleted' or 'moved'
+      moved_to TEXT,
+      detected_at TEXT NOT NULL
+    )
+  `);
+}
+
+function loadRawIssue(payload: Uint8Array): JiraIssue {
+  return JSON.parse(new TextDecoder().decode(Bun.gunzipSync(new Uint8Array(payload))));
+}
+
+/**
+ * Write the transformed document and its FTS entry for one raw issue.
+ * Documents identical to the stored one are left alone ("skipped").
+ */
+function indexIssue(db: Database, issue: JiraIssue, runId: number | null): RowOutcome {
   const doc = transformIssue(issue);
   const json = JSON.stringify(doc);
   
-  // Insert/replace main document
-  db.prepare(`INSERT OR REPLACE INTO issues (key, data) VALUES (?, ?)`)
-    .run(doc.key, json);
+  const existing = db.prepare(`SELECT data FROM issues WHERE key = ?`).get(doc.key) as any;
+  if (existing?.data === json) return "skipped";
   
-  // Build FTS content
-  const commentsText = doc.comments?.map((c: any) => c.body).join("\n") || "";
+  // Insert/update main document; an upsert keeps the rowid that issues_fts is keyed on
+  db.prepare(`
+    INSERT INTO issues (key, data, ingest_run_id) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET data = excluded.data, ingest_run_id = excluded.ingest_run_id
+  `).run(doc.key, json, runId);
+  
+  writeFtsEntry(db, doc);
+  writeCommentEntries(db, doc);
+  writeValueEntries(db, doc);
+  writeRelationEntries(db, doc);
+
+  // Replace the transition timeline
+  db.prepare(`DELETE FROM issue_history WHERE key = ?`).run(doc.key);
+  const insertHistory = db.prepare(`
+    INSERT INTO issue_history (key, changed_at, author, author_username, field, from_value, to_value)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const h of extractHistory(issue)) {
+    insertHistory.run(doc.key, h.changed_at, h.author, h.author_username, h.field, h.from_value, h.to_value);
+  }
+  return existing ? "updated" : "inserted";
+}
+
+/** (Re)write the FTS entry for one transformed document, including attachment text */
+function writeFtsEntry(db: Database, doc: Record<string, any>) {
+  // Build FTS content - wiki markup is reduced to plain text
+  const commentsText = doc.comments?.map((c: any) => wikiToText(c.body)).join("\n") || "";
   const labelsText = Array.isArray(doc.labels) ? doc.labels.join(" ") : (doc.labels || "");
   const artifactsText = Array.isArray(doc.related_artifacts) ? doc.related_artifacts.join(" ") : (doc.related_artifacts || "");
   const specText = Array.isArray(doc.specification) ? doc.specification.join(" ") : (doc.specification || "");
   const wgText = Array.isArray(doc.work_group) ? doc.work_group.join(" ") : (doc.work_group || "");
   
-  // Delete old FTS entry if exists, then insert new
-  db.prepare(`DELETE FROM issues_fts WHERE key = ?`).run(doc.key);
+  const descriptionText = wikiToText(doc.description);
+  const resolutionText = wikiToText(doc.resolution_description);
+  const attachmentText = attachmentsText(db, doc.key);
+  const terms = fhirTerms([doc.summary, descriptionText, artifactsText, resolutionText, commentsText, attachmentText].join("\n"));
+  
+  // FTS rows are keyed by issues.rowid
+  const { rowid } = db.prepare(`SELECT rowid FROM issues WHERE key = ?`).get(doc.key) as any;
+  db.prepare(`DELETE FROM issues_fts WHERE rowid = ?`).run(rowid);
   db.prepare(`
-    INSERT INTO issues_fts (key, summary, description, specification, work_group, 
-                            related_artifacts, resolution_description, labels, comments_text)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO issues_fts (rowid, key, summary, description, specification, work_group, 
+                            related_artifacts, resolution_description, labels, comments_text,
+                            attachments_text, fhir_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
+    rowid,
     doc.key,
     doc.summary || "",
-    doc.description || "",
+    descriptionText,
     specText,
     wgText,
     artifactsText,
-    doc.resolution_description || "",
+    resolutionText,
     labelsText,
-    commentsText
+    commentsText,
+    attachmentText,
+    terms
   );
 }
 
+/** Replace an issue's rows in issue_comments and comments_fts */
+function writeCommentEntries(db: Database, doc: Record<string, any>) {
+  // External-content FTS rows are removed by repeating the indexed values
+  db.prepare(`
+    INSERT INTO comments_fts (comments_fts, rowid, author, text, fhir_terms)
+    SELECT 'delete', id, author, text, fhir_terms FROM issue_comments WHERE issue_key = ?
+  `).run(doc.key);
+  db.prepare(`DELETE FROM issue_comments WHERE issue_key = ?`).run(doc.key);
+
+  const insert = db.prepare(`
+    INSERT INTO issue_comments (issue_key, position, comment_id, author, author_username, created_at, text, fhir_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const index = db.prepare(`INSERT INTO comments_fts (rowid, author, text, fhir_terms) VALUES (?, ?, ?, ?)`);
+  (doc.comments || []).forEach((c: any, n: number) => {
+    const author = c.author?.name || c.author || null;
+    const text = wikiToText(c.body);
+    const terms = fhirTerms(text);
+    const { lastInsertRowid } = insert.run(
+      doc.key, n + 1, c.id ?? null, author, c.author?.username || null, c.created_at || null, text, terms
+    );
+    index.run(lastInsertRowid, author, text, terms);
+  });
+}
+
+/** Replace an issue's rows in issue_values */
+function writeValueEntries(db: Database, doc: Record<string, any>) {
+  db.prepare(`DELETE FROM issue_values WHERE key = ?`).run(doc.key);
+  const insert = db.prepare(`INSERT OR IGNORE INTO issue_values (field, value, key) VALUES (?, ?, ?)`);
+  const specs: string[] = [doc.specification ?? []].flat();
+  for (const field of VALUE_FIELDS) {
+    for (const value of [doc[field] ?? []].flat()) {
+      if (typeof value !== "string" || !value) continue;
+      insert.run(field, value, doc.key);
+      // Artifacts are named per specification (FHIR-core-Patient); also store the bare name
+      if (field === "related_artifacts") {
+        const spec = specs.find(s => value.startsWith(`${s}-`));
+        if (spec) insert.run(field, value.slice(spec.length + 1), doc.key);
+      }
+    }
+  }
+
+  const person = (p: any): string[] => typeof p === "string" ? [p] : [p?.name, p?.username].filter(Boolean);
+  for (const field of PERSON_FIELDS) {
+    for (const value of person(doc[field])) insert.run(field, value, doc.key);
+  }
+  for (const comment of doc.comments || []) {
+    for (const value of person(comment.author)) insert.run("commenter", value, doc.key);
+  }
+}
+
+/** Replace an issue's rows in issue_relations */
+function writeRelationEntries(db: Database, doc: Record<string, any>) {
+  db.prepare(`DELETE FROM issue_relations WHERE key = ?`).run(doc.key);
+  const insert = db.prepare(`
+    INSERT INTO issue_relations (key, target_key, kind, relation, inward) VALUES (?, ?, ?, ?, ?)
+  `);
+  for (const link of doc.issue_links || []) {
+    insert.run(doc.key, link.target_key, "link", link.relation || "links to", link.direction === "inward" ? 1 : 0);
+  }
+  for (const rel of [doc.related_issues ?? []].flat()) {
+    if (rel?.key) insert.run(doc.key, rel.key, "related", "related to", 0);
+  }
+  for (const dup of [doc.duplicate_of ?? []].flat()) {
+    if (dup?.key) insert.run(doc.key, dup.key, "duplicate_of", "duplicate of", 0);
+  }
+  for (const sub of doc.subtasks || []) {
+    if (sub?.key) insert.run(doc.key, sub.key, "subtask", "has subtask", 0);
+  }
+}
+
+/** Refresh the FTS entries of issues whose attachment text changed */
+function refreshFtsEntries(db: Database, keys: Iterable<string>) {
+  const getDoc = db.prepare(`SELECT data FROM issues WHERE key = ?`);
+  db.exec("BEGIN");
+  for (const key of keys) {
+    const row = getDoc.get(key) as any;
+    if (row) writeFtsEntry(db, JSON.parse(row.data));
+  }
+  db.exec("COMMIT");
+}
+
 function createIndexes(db: Database) {
   console.log("Creating indexes...");
   // JSON indexes for common queries
@@ -378,6 +884,135 @@ function createIndexes(db: Database) {
   db.exec(`CREATE INDEX IF NOT EXISTS idx_resolution ON issues(json_extract(data, '$.resolution'))`);
   db.exec(`CREATE INDEX IF NOT EXISTS idx_created ON issues(json_extract(data, '$.created_at'))`);
   db.exec(`CREATE INDEX IF NOT EXISTS idx_updated ON issues(json_extract(data, '$.updated_at'))`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_ingest_run ON issues(ingest_run_id)`);
+}
+
+/**
+ * Compare the stored issues with the project's current key set and tombstone
+ * the ones that are gone. Incremental downloads only see issues that still
+ * exist, so deletions and moves would otherwise never be noticed.
+ */
+async function reconcileDeletions(db: Database, conn: JiraConnection, projects: string[]) {
+  console.log("\nReconciling stored issues against the current key set...");
+
+  const live = new Set<string>();
+  const jql = `${projectClause(projects)} ORDER BY key ASC`;
+  let startAt = 0;
+  let total = Infinity;
+  while (startAt < total) {
+    const page = await fetchBatch(startAt, conn, jql, 1000, "key", "");
+    total = page.total;
+    if (page.issues.length === 0) break;
+    for (const issue of page.issues) live.add(issue.key);
+    startAt += page.issues.length;
+    process.stdout.write(`\r  ${live.size}/${total} keys`);
+    await Bun.sleep(150);
+  }
+
+  // Never tombstone from a partial listing
+  if (live.size < total) {
+    console.log(`\n⚠️  Key listing incomplete (${live.size}/${total}); skipping reconciliation.`);
+    return;
+  }
+
+  // Only issues of the listed projects can be judged missing
+  const stored = db.query(`
+    SELECT i.key, t.key AS tombstoned FROM issues i
+    LEFT JOIN issue_tombstones t ON t.key = i.key
+    WHERE ${projectSql("i")} IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify(projects)) as any[];
+  const missing = stored.filter(r => !live.has(r.key) && !r.tombstoned).map(r => r.key);
+  const returned = stored.filter(r => live.has(r.key) && r.tombstoned).map(r => r.key);
+
+  const tombstone = db.prepare(`
+    INSERT OR REPLACE INTO issue_tombstones (key, status, moved_to, detected_at) VALUES (?, ?, ?, ?)
+  `);
+  const detectedAt = new Date().toISOString();
+  let moved = 0;
+  for (const key of missing) {
+    const currentKey = await fetchCurrentKey(key, conn);
+    if (currentKey && currentKey !== key) {
+      tombstone.run(key, "moved", currentKey, detectedAt);
+      moved++;
+    } else {
+      tombstone.run(key, "deleted", null, detectedAt);
+    }
+    await Bun.sleep(150);
+  }
+  for (const key of returned) {
+    db.prepare(`DELETE FROM issue_tombstones WHERE key = ?`).run(key);
+  }
+
+  console.log(`\n   Newly tombstoned: ${missing.length} (${missing.length - moved} deleted, ${moved} moved)`);
+  if (returned.length > 0) console.log(`   Restored: ${returned.length}`);
+}
+
+/** Bring an existing database up to the current schema, without network access */
+function migrate(dbPath: string) {
+  if (!existsSync(dbPath)) {
+    console.error(`No existing database found at ${dbPath}.`);
+    process.exit(1);
+  }
+
+  const db = openDatabaseForResume(dbPath);
+  console.log(`✅ Database schema is v${SCHEMA_VERSION}: ${dbPath}`);
+  db.close();
+}
+
+/** Rebuild issues and issues_fts from stored raw payloads, without network access */
+function reindex(dbPath: string) {
+  if (!existsSync(dbPath)) {
+    console.error(`No existing database found at ${dbPath}.`);
+    process.exit(1);
+  }
+
+  const db = openDatabaseForResume(dbPath);
+  console.log(`Database schema is v${SCHEMA_VERSION}.`);
+  const rawCount = db.query("SELECT COUNT(*) as cnt FROM raw_issues").get() as any;
+  const missing = db.query(`
+    SELECT COUNT(*) as cnt FROM issues
+    WHERE key NOT IN (SELECT key FROM raw_issues)
+  `).get() as any;
+
+  if (missing.cnt > 0) {
+    console.error(`${missing.cnt} issues have no stored raw payload and would be lost, so they were not reindexed.`);
+    console.error("The database itself is migrated and searchable; run a full download to capture payloads for every issue.");
+    db.close();
+    process.exit(1);
+  }
+
+  console.log(`Reindexing ${rawCount.cnt} issues from stored payloads: ${dbPath}`);
+
+  // Rebuilding the tables must not lose which run last changed each issue
+  const runIds = new Map<string, number | null>();
+  for (const row of db.query("SELECT key, ingest_run_id FROM issues").iterate() as Iterable<any>) {
+    runIds.set(row.key, row.ingest_run_id);
+  }
+
+  // DDL is transactional, so readers keep seeing the old tables until COMMIT
+  db.exec("BEGIN");
+  try {
+    createIssueTables(db);
+    let done = 0;
+    for (const row of db.query("SELECT key, payload FROM raw_issues ORDER BY key").iterate() as Iterable<any>) {
+      indexIssue(db, loadRawIssue(row.payload), runIds.get(row.key) ?? null);
+      done++;
+      if (done % 1000 === 0) process.stdout.write(`\r  ${done}/${rawCount.cnt}`);
+    }
+    createIndexes(db);
+    setMeta(db, { reindexed_at: new Date().toISOString(), field_map_version: fieldMap.version });
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    db.close();
+    throw error;
+  }
+
+  const issueCount = db.query("SELECT COUNT(*) as cnt FROM issues").get() as any;
+  console.log("\n\n✅ Reindex done!");
+  console.log(`   Issues: ${issueCount.cnt}`);
+  console.log(`   Database: ${dbPath}`);
+  db.close();
 }
 
 async function main() {
@@ -390,9 +1025,34 @@ async function main() {
       resume: { type: "boolean", default: false },
       "since-last": { type: "boolean", default: false },
       "changes-since-last-db-generation": { type: "boolean", default: false },
+      reindex: { type: "boolean", default: false },
+      migrate: { type: "boolean", default: false },
+      "base-url": { type: "string", default: BASE_URL },
+      "max-attempts": { type: "string", default: String(DEFAULT_RETRY_POLICY.maxAttempts) },
+      "failure-log": { type: "string" },
+      project: { type: "string", multiple: true },
+      attachments: { type: "boolean", default: false },
+      "attachment-dir": { type: "string" },
+      "max-attachment-mb": { type: "string" },
+      "field-map": { type: "string" },
     },
   });
 
+  if (values["field-map"]) {
+    fieldMap = loadFieldMap(values["field-map"] as string);
+    console.log(`Using field mapping ${values["field-map"]} (version ${fieldMap.version})`);
+  }
+
+  if (values.migrate) {
+    migrate(values.output as string);
+    return;
+  }
+
+  if (values.reindex) {
+    reindex(values.output as string);
+    return;
+  }
+
   let cookies: string;
   
   if (values["cookie-file"]) {
@@ -404,6 +1064,17 @@ async function main() {
     console.error("   or: bun run jira/download.ts --cookie-file cookies.txt");
     console.error("   Add --resume to continue an interrupted download");
     console.error("   Add --since-last to fetch updates since last DB generation");
+    console.error("   Or:  bun run jira/download.ts --reindex  (rebuild from stored payloads, offline)");
+    console.error("        add --field-map PATH to try another field mapping (default: jira/field-map.json)");
+    console.error("   Or:  bun run jira/download.ts --migrate  (update the schema of an existing database, offline)");
+    console.error("\nOptions:");
+    console.error("   --max-attempts N     Attempts per request on rate-limit/transient errors (default: 8)");
+    console.error("   --failure-log PATH   JSON-lines log of failed requests (default: download-failures.log next to the database)");
+    console.error("   --base-url URL       Jira server (default: https://jira.hl7.org)");
+    console.error("   --project KEY        Jira project to download; repeat for several (default: FHIR)");
+    console.error("   --attachments        Also download attachments and index their text");
+    console.error("   --attachment-dir DIR Attachment blob store (default: attachments/ next to the database)");
+    console.error("   --max-attachment-mb N  Skip attachments larger than this (default: 10)");
     process.exit(1);
   }
 
@@ -413,114 +1084,293 @@ async function main() {
     (values["changes-since-last-db-generation"] as boolean);
   const resume = values.resume as boolean;
   const dbPath = values.output as string;
+  const requestedProjects = (values.project as string[] | undefined)?.map(p => p.toUpperCase());
+
+  // A NaN here would make every retryable failure retry forever
+  const maxAttempts = Number(values["max-attempts"]);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    console.error(`--max-attempts must be a positive integer, not "${values["max-attempts"]}"`);
+    process.exit(1);
+  }
+
+  const conn: JiraConnection = {
+    baseUrl: (values["base-url"] as string).replace(/\/+$/, ""),
+    cookies,
+    policy: { ...DEFAULT_RETRY_POLICY, maxAttempts },
+    failureLog: (values["failure-log"] as string) || join(dirname(dbPath), "download-failures.log"),
+  };
 
   if (sinceLast && resume) {
     console.error("Choose one of --resume or --since-last, not both.");
     process.exit(1);
   }
 
-  let jql = "project=FHIR ORDER BY key ASC";
+  // Full rebuilds go to a staging file and only replace dbPath once complete
+  const staging = stagingPath(dbPath);
+  let db: Database | null = null;
+  let checkpoint: Checkpoint;
+  let rebuilding = false;
 
-  if (sinceLast) {
+  if (resume) {
+    const target = existsSync(staging) ? staging : dbPath;
+    if (!existsSync(target)) {
+      console.error(`No existing database found at ${dbPath}.`);
+      console.error("Run without --resume to create a fresh database.");
+      process.exit(1);
+    }
+    db = openDatabaseForResume(target);
+    rebuilding = target === staging;
+    const saved = loadCheckpoint(db);
+    if (!saved) {
+      console.error(`No download checkpoint in ${target} - the last download finished.`);
+      console.error("Run with --since-last to fetch newer changes.");
+      db.close();
+      process.exit(1);
+    }
+    checkpoint = saved;
+    console.log(`Resuming ${checkpoint.mode} download in ${target}`);
+    console.log(`Already processed ${checkpoint.start_at} issues (last: ${checkpoint.last_key || "none"}), continuing from there...`);
+  } else if (sinceLast) {
     if (!existsSync(dbPath)) {
       console.error(`No existing database found at ${dbPath}.`);
       console.error("Run without --since-last to create a fresh database.");
       process.exit(1);
     }
-    const existingDb = openDatabaseForResume(dbPath);
-    const lastUpdated = getLastUpdatedTimestamp(existingDb);
-    existingDb.close();
-    if (!lastUpdated) {
-      console.error("No updated_at timestamps found in the existing database.");
+    db = openDatabaseForResume(dbPath);
+    const projects = requestedProjects || getStoredProjects(db);
+    if (projects.length === 0) {
+      console.error("No issues found in the existing database.");
       console.error("Run without --since-last to create a fresh database.");
+      db.close();
       process.exit(1);
     }
-    const sinceDate = subtractHours(lastUpdated, 1);
-    const since = formatJqlDate(sinceDate);
-    jql = `project=FHIR AND updated >= "${since}" ORDER BY updated ASC, key ASC`;
-    console.log(`Incremental mode: updated >= "${since}" (UTC, includes 1h overlap)`);
+    // Each project continues from its own newest issue; new projects are fetched in full
+    const clauses = projects.map(project => {
+      const lastUpdated = getLastUpdatedTimestamp(db!, project);
+      if (!lastUpdated) {
+        console.log(`Incremental mode: ${project} not in the database yet, fetching all of it`);
+        return `project = "${project}"`;
+      }
+      const since = formatJqlDate(subtractHours(lastUpdated, 1));
+      console.log(`Incremental mode: ${project} updated >= "${since}" (UTC, includes 1h overlap)`);
+      return `(project = "${project}" AND updated >= "${since}")`;
+    });
+    checkpoint = {
+      mode: "since-last",
+      jql: clauses.join(" OR "),
+      last_key: null,
+      last_updated: null,
+      start_at: 0,
+      pending_projects: [],
+    };
+  } else {
+    const [first, ...rest] = requestedProjects || DEFAULT_PROJECTS;
+    checkpoint = {
+      mode: "full",
+      jql: projectClause([first]),
+      last_key: null,
+      last_updated: null,
+      start_at: 0,
+      pending_projects: rest,
+    };
   }
 
+  const incremental = checkpoint.mode === "since-last";
+
+  // Count what is left: the rest of the current query plus projects not started yet
   console.log("Testing connection...");
-  const testResponse = await fetchBatch(0, cookies, jql, 1);
-  const total = testResponse.total;
+  let remaining = 0;
+  try {
+    const queries = [
+      continuationJql(checkpoint),
+      ...checkpoint.pending_projects.map(p => `${projectClause([p])} ${CHECKPOINT_ORDER.full}`),
+    ];
+    for (const query of queries) {
+      remaining += (await fetchBatch(0, conn, query, 1)).total;
+    }
+  } catch (error) {
+    if (!(error instanceof JiraFetchError)) throw error;
+    console.error(`❌ Connection failed (${error.kind}): ${error.message}`);
+    if (error.kind === "auth") console.error("   Get fresh cookies and try again.");
+    db?.close();
+    process.exit(1);
+  }
+  let total = checkpoint.start_at + remaining;
   console.log(`Total issues available: ${total}`);
 
-  let db: Database;
-  let startAt = 0;
-
-  if (resume && existsSync(dbPath)) {
-    console.log(`Resuming download from existing database: ${dbPath}`);
-    db = openDatabaseForResume(dbPath);
-    startAt = getResumePoint(db);
-    console.log(`Already have ${startAt} issues, resuming from there...`);
+  if (!db) {
+    console.log(`Creating fresh database in staging file: ${staging}`);
+    removeDatabaseFiles(staging);
+    db = createDatabase(staging);
+    // Stored attachments do not change, so the rebuild reuses what the live database has
+    copyAttachmentRows(db, dbPath);
+    copyIngestRuns(db, dbPath);
+    copyEmbeddingRows(db, dbPath);
+    rebuilding = true;
   } else if (sinceLast) {
     console.log(`Opening existing database for incremental updates: ${dbPath}`);
-    db = openDatabaseForResume(dbPath);
-  } else {
-    console.log(`Creating fresh database: ${dbPath}`);
-    db = createDatabase(dbPath);
   }
+  saveCheckpoint(db, checkpoint);
+
+  // What this run covers, recorded in meta once it finishes
+  const runJql = [checkpoint.jql, ...checkpoint.pending_projects.map(p => projectClause([p]))].join(" OR ");
+  const run = startIngestRun(db, resume ? "resume" : checkpoint.mode, {
+    jql: runJql,
+    checkpoint_mode: checkpoint.mode,
+    ...(requestedProjects ? { projects: requestedProjects } : {}),
+  });
 
   const batchSize = 100;
+  let jql = continuationJql(checkpoint);
+  let offset = 0;  // position within the continuation query
+  let aborted = false;
 
   console.log("Downloading issues...");
   
-  while (startAt < total) {
+  while (true) {
     try {
-      const response = await fetchBatch(startAt, cookies, jql, batchSize);
+      // Rate limits and transient errors are retried inside the fetch layer
+      const response = await fetchBatch(offset, conn, jql, batchSize);
       
       db.exec("BEGIN");
       for (const issue of response.issues) {
-        insertIssue(db, issue);
+        insertIssue(db, issue, run);
+      }
+      const last = response.issues[response.issues.length - 1];
+      if (last) {
+        checkpoint.last_key = last.key;
+        checkpoint.last_updated = last.fields.updated || checkpoint.last_updated;
+        checkpoint.start_at += response.issues.length;
       }
+      offset += response.issues.length;
+      
+      // Query exhausted: full downloads move on to the next project
+      const exhausted = response.issues.length === 0 || offset >= response.total;
+      const next = exhausted ? checkpoint.pending_projects.shift() : undefined;
+      if (next) {
+        checkpoint.jql = projectClause([next]);
+        checkpoint.last_key = null;
+        jql = continuationJql(checkpoint);
+        offset = 0;
+      }
+      saveCheckpoint(db, checkpoint);
+      saveIngestRun(db, run);
       db.exec("COMMIT");
 
-      startAt += response.issues.length;
-      const pct = ((startAt / total) * 100).toFixed(1);
-      process.stdout.write(`\r  ${startAt}/${total} (${pct}%)`);
+      const pct = ((checkpoint.start_at / total) * 100).toFixed(1);
+      process.stdout.write(`\r  ${checkpoint.start_at}/${total} (${pct}%)`);
+      if (exhausted && !next) break;
 
       await Bun.sleep(150);
     } catch (error: any) {
-      console.error(`\nError at ${startAt}:`, error.message);
-      db.exec("ROLLBACK");
+      console.error(`\nError at ${checkpoint.start_at}:`, error.message);
+      if (db.inTransaction) db.exec("ROLLBACK");
+      if (!(error instanceof JiraFetchError)) {
+        run.errors.push(error.message);
+        finishIngestRun(db, run, "failed");
+        throw error;
+      }
+      run.errors.push(`${error.kind} at ${checkpoint.start_at}: ${error.message}`);
       
-      if (error.message.includes("403") || error.message.includes("401")) {
+      if (error.kind === "auth") {
         console.error("\n❌ Session expired! Save your progress and get fresh cookies.");
-        console.error(`   Current progress: ${startAt}/${total} issues`);
-        console.error(`   Resume with: bun run jira/download.ts --cookie-file cookies.txt --resume`);
-        break;
+      } else {
+        console.error(`\n❌ Giving up on ${error.kind} failure.`);
       }
-      
-      await Bun.sleep(2000);
+      console.error(`   Current progress: ${checkpoint.start_at}/${total} issues (last: ${checkpoint.last_key})`);
+      console.error(`   Failure log: ${conn.failureLog}`);
+      console.error(`   Resume with: bun run jira/download.ts --cookie-file cookies.txt --resume`);
+      aborted = true;
+      break;
+    }
+  }
+
+  if (!aborted) {
+    clearCheckpoint(db);
+    // Everything was walked to the end; upstream may have gained or lost issues meanwhile
+    total = checkpoint.start_at;
+  }
+
+  if (incremental && !aborted) {
+    try {
+      await reconcileDeletions(db, conn, requestedProjects || getStoredProjects(db));
+    } catch (error: any) {
+      console.error(`\n⚠️  Reconciliation failed: ${error.message}`);
+      run.errors.push(`reconciliation: ${error.message}`);
     }
   }
 
+  if (values.attachments && !aborted) {
+    const storeDir = (values["attachment-dir"] as string) || join(dirname(dbPath), "attachments");
+    const maxBytes = values["max-attachment-mb"]
+      ? parseFloat(values["max-attachment-mb"] as string) * 1024 * 1024
+      : DEFAULT_MAX_ATTACHMENT_BYTES;
+    const synced = await syncAttachments(db, conn, storeDir, maxBytes);
+    refreshFtsEntries(db, synced.touchedKeys);
+    if (synced.failed > 0) run.errors.push(`${synced.failed} attachments failed to download`);
+  }
+
   createIndexes(db);
+  finishIngestRun(db, run, aborted ? "incomplete" : "completed");
+
+  if (!aborted) {
+    const now = new Date().toISOString();
+    setMeta(db, {
+      generated_at: now,
+      generation_mode: checkpoint.mode,
+      ...(incremental ? {} : { full_download_at: now }),
+      jql: runJql,
+      projects: JSON.stringify(getStoredProjects(db)),
+      base_url: conn.baseUrl,
+      downloader_version: downloaderVersion(),
+      field_map_version: fieldMap.version,
+    });
+  }
 
   // Print stats
   const issueCount = db.query("SELECT COUNT(*) as cnt FROM issues").get() as any;
 
   console.log("\n\n✅ Done!");
-  if (sinceLast) {
-    console.log(`   Updated issues: ${startAt}/${total}`);
+  if (incremental) {
+    console.log(`   Updated issues: ${checkpoint.start_at}/${total}`);
     console.log(`   Database issues: ${issueCount.cnt}`);
   } else {
     console.log(`   Issues: ${issueCount.cnt}/${total}`);
   }
-  console.log(`   Database: ${dbPath}`);
+  console.log(`   Ingest run ${run.id}: ${run.inserted} inserted, ${run.updated} updated, ${run.skipped} unchanged`);
 
-  if (!sinceLast && issueCount.cnt < total) {
+  if (!incremental && issueCount.cnt < total) {
     console.log(`\n⚠️  Download incomplete! Missing ${total - issueCount.cnt} issues.`);
     console.log(`   Get fresh cookies and run with --resume to continue.`);
   }
 
-  if (sinceLast && startAt < total) {
-    console.log(`\n⚠️  Incremental update incomplete! Missing ${total - startAt} issues.`);
-    console.log(`   Get fresh cookies and rerun with --since-last.`);
+  if (incremental && checkpoint.start_at < total) {
+    console.log(`\n⚠️  Incremental update incomplete! Missing ${total - checkpoint.start_at} issues.`);
+    console.log(`   Get fresh cookies and run with --resume to continue.`);
   }
 
-  db.close();
+  if (!rebuilding) {
+    console.log(`   Database: ${dbPath}`);
+    db.close();
+    return;
+  }
+
+  const failures = checkCompleteness(db, [
+    { label: "download aborted before the last batch", ok: !aborted },
+    { label: `only ${issueCount.cnt} of ${total} issues stored`, ok: issueCount.cnt >= total },
+  ]);
+
+  if (failures.length > 0) {
+    db.close();
+    console.log(`\n⚠️  Staging database failed the completeness check:`);
+    for (const failure of failures) console.log(`   - ${failure}`);
+    console.log(`   Live database left untouched: ${dbPath}`);
+    console.log(`   Staging database kept at: ${staging}`);
+    return;
+  }
+
+  promoteStagingDatabase(db, dbPath);
+  console.log(`   Database: ${dbPath}`);
 }
 
-main().catch(console.error);
+if (import.meta.main) main().catch(console.error);
@@ -0,0 +1,64 @@
+/**
+ * FHIR Jira Embeddings
+ *
+ * Fills the `embeddings` table of the Jira database from each issue's
+ * summary, description and related artifacts, for `--semantic` and
+ * `--hybrid` search. Only new and changed issues are embedded, so run it
+ * after every download.
+ *
+ * Usage:
+ *   bun run jira/embed.ts
+ *   bun run jira/embed.ts --provider hashed-ngrams --db jira/data.db
+ */
+
+import { Database } from "bun:sqlite";
+import { parseArgs } from "util";
+import { existsSync } from "fs";
+import { wikiToText } from "./wiki";
+import { openDatabaseForResume } from "./download";
+import { DEFAULT_PROVIDER, getProvider, providerNames, updateEmbeddings } from "../shared/embeddings";
+
+/** What an issue's vector is computed from */
+function issueEmbeddingText(doc: Record<string, any>): string {
+  const artifacts = [doc.related_artifacts ?? []].flat().join(" ");
+  return [doc.summary, wikiToText(doc.description), artifacts].filter(Boolean).join("\n");
+}
+
+function* issueTexts(db: Database) {
+  for (const row of db.query("SELECT key, data FROM issues ORDER BY key").iterate() as Iterable<any>) {
+    yield { id: row.key as string, text: issueEmbeddingText(JSON.parse(row.data)) };
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      db: { type: "string", default: process.env.FHIR_JIRA_DB || new URL("./data.db", import.meta.url).pathname },
+      provider: { type: "string", default: DEFAULT_PROVIDER },
+    },
+  });
+
+  const dbPath = values.db as string;
+  if (!existsSync(dbPath)) {
+    console.error(`No database found at ${dbPath}. Run: bun run jira:download`);
+    process.exit(1);
+  }
+  if (!providerNames().includes(values.provider as string)) {
+    console.error(`Unknown embedding provider "${values.provider}" (available: ${providerNames().join(", ")})`);
+    process.exit(1);
+  }
+  const provider = getProvider(values.provider as string);
+  const db = openDatabaseForResume(dbPath);
+  db.exec("PRAGMA journal_mode = WAL");
+
+  console.log(`Embedding issues with ${provider.name} (${provider.dimensions} dimensions): ${dbPath}`);
+  const counts = await updateEmbeddings(db, provider, issueTexts(db), 256, c => {
+    process.stdout.write(`\r  ${c.embedded} embedded`);
+  });
+  db.close();
+
+  console.log(`\n✅ ${counts.embedded} embedded, ${counts.unchanged} unchanged, ${counts.removed} removed`);
+}
+
+main().catch(console.error);
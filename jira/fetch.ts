@@ -0,0 +1,136 @@
+/**
+ * Jira REST Fetch Layer
+ *
+ * Every request the downloader makes goes through jiraGet(), which sorts
+ * failures into groups and decides whether to retry:
+ *
+ *   auth        401/403 - cookies expired; retrying cannot help
+ *   rate-limit  429 - wait for Retry-After (at most maxDelayMs) or back off, then retry
+ *   transient   5xx, 408, network errors, timeouts - capped exponential backoff, then retry
+ *   fatal       any other status (bad JQL, 404, ...) - fail immediately
+ *
+ * Each failed attempt is appended to a JSON-lines log so a long download can
+ * be audited afterwards.
+ */
+
+import { appendFileSync } from "fs";
+
+export type FailureKind = "auth" | "rate-limit" | "transient" | "fatal";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;       // also caps a server's Retry-After
+  requestTimeoutMs: number; // a request taking longer is aborted and counts as transient
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  requestTimeoutMs: 120_000,
+};
+
+export interface JiraConnection {
+  baseUrl: string;       // e.g. https://jira.hl7.org
+  cookies: string;
+  policy: RetryPolicy;
+  failureLog?: string;   // JSON-lines file for failed attempts
+}
+
+export class JiraFetchError extends Error {
+  constructor(
+    message: string,
+    readonly kind: FailureKind,
+    readonly status: number | null,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "JiraFetchError";
+  }
+}
+
+export function classifyStatus(status: number): FailureKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate-limit";
+  if (status === 408 || status >= 500) return "transient";
+  return "fatal";
+}
+
+/** Retry-After is either delta-seconds or an HTTP date */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/** Exponential backoff with jitter, capped at the policy maximum */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+function logFailure(conn: JiraConnection, entry: Record<string, any>) {
+  if (!conn.failureLog) return;
+  appendFileSync(conn.failureLog, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n");
+}
+
+/**
+ * GET a Jira REST path, retrying rate-limit and transient failures.
+ * Resolves with a successful response or throws JiraFetchError.
+ */
+export async function jiraGet(conn: JiraConnection, path: string): Promise<Response> {
+  const url = `${conn.baseUrl}${path}`;
+
+  for (let attempt = 1; ; attempt++) {
+    let kind: FailureKind;
+    let status: number | null = null;
+    let message: string;
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          Cookie: conn.cookies,
+          "User-Agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36",
+        },
+        signal: AbortSignal.timeout(conn.policy.requestTimeoutMs),
+      });
+      if (response.ok) return response;
+
+      status = response.status;
+      kind = classifyStatus(status);
+      retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+      const text = await response.text();
+      message = `HTTP ${status}: ${text.slice(0, 200)}`;
+    } catch (error: any) {
+      // fetch() itself failed: DNS, connection reset, timeout
+      kind = "transient";
+      message = error.name === "TimeoutError"
+        ? `no response within ${conn.policy.requestTimeoutMs / 1000}s`
+        : error.message;
+    }
+
+    const retryable = kind === "rate-limit" || kind === "transient";
+    const giveUp = !retryable || attempt >= conn.policy.maxAttempts;
+    // A Retry-After of a day (or a far-future date) is clamped rather than slept through
+    const delayMs = giveUp
+      ? null
+      : retryAfterMs !== null ? Math.min(retryAfterMs, conn.policy.maxDelayMs) : backoffDelay(attempt, conn.policy);
+
+    logFailure(conn, { path, kind, status, attempt, delay_ms: delayMs, message });
+
+    if (giveUp) {
+      const suffix = retryable ? ` (gave up after ${attempt} attempts)` : "";
+      throw new JiraFetchError(`${message}${suffix}`, kind, status, attempt);
+    }
+
+    console.error(`\n  ${kind} failure (${message.slice(0, 80)}); retry ${attempt}/${conn.policy.maxAttempts - 1} in ${(delayMs! / 1000).toFixed(1)}s`);
+    await Bun.sleep(delayMs!);
+  }
+}
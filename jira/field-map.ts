@@ -0,0 +1,82 @@
+/**
+ * Jira Field Mapping
+ *
+ * Which Jira custom fields the downloader keeps, and under what name, lives in
+ * jira/field-map.json rather than in code. Bump `version` whenever the mapping
+ * changes; `investigate-fields --diff` proposes updates to it.
+ *
+ * After editing the mapping, run `bun run jira:reindex` to apply it to the
+ * stored raw payloads without downloading again.
+ */
+
+import { readFileSync } from "fs";
+
+export const DEFAULT_FIELD_MAP_PATH = new URL("./field-map.json", import.meta.url).pathname;
+
+export interface MappedField {
+  name: string;           // key in the issue JSON document
+  group?: string;         // heading used to organise the file
+  description?: string;
+  jira_name?: string;     // field name in Jira, recorded by investigate-fields
+}
+
+export interface FieldMap {
+  version: number;
+  fields: Record<string, MappedField>;  // Jira field id -> mapping
+  skip: Record<string, string>;         // Jira field id -> reason it is not kept
+}
+
+export function loadFieldMap(path = DEFAULT_FIELD_MAP_PATH): FieldMap {
+  let map: FieldMap;
+  try {
+    map = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Cannot read field mapping ${path}: ${error.message}`);
+  }
+
+  if (typeof map.version !== "number" || !map.fields || typeof map.fields !== "object") {
+    throw new Error(`Field mapping ${path} needs a numeric "version" and a "fields" object`);
+  }
+  map.skip ||= {};
+
+  const seen = new Map<string, string>();
+  for (const [id, field] of Object.entries(map.fields)) {
+    if (!field?.name || !/^[a-z][a-z0-9_]*$/.test(field.name)) {
+      throw new Error(`Field mapping ${path}: ${id} needs a snake_case "name"`);
+    }
+    if (seen.has(field.name)) {
+      throw new Error(`Field mapping ${path}: ${id} and ${seen.get(field.name)} both map to "${field.name}"`);
+    }
+    if (id in map.skip) {
+      throw new Error(`Field mapping ${path}: ${id} is both mapped and skipped`);
+    }
+    seen.set(field.name, id);
+  }
+  return map;
+}
+
+/** Serialize with one field per line, so mapping changes diff cleanly */
+export function formatFieldMap(map: FieldMap): string {
+  const inline = (value: any): string => {
+    if (value === null || typeof value !== "object") return JSON.stringify(value);
+    const parts = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${JSON.stringify(k)}: ${JSON.stringify(v)}`);
+    return `{ ${parts.join(", ")} }`;
+  };
+  const entries = (obj: Record<string, any>) =>
+    Object.entries(obj).map(([id, value]) => `    ${JSON.stringify(id)}: ${inline(value)}`);
+
+  return [
+    "{",
+    `  "version": ${map.version},`,
+    `  "fields": {`,
+    entries(map.fields).join(",\n"),
+    "  },",
+    `  "skip": {`,
+    entries(map.skip).join(",\n"),
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,171 @@
+/**
+ * Jira Issue Graph
+ *
+ * Walks the links between issues in the local database (issue_links,
+ * related_issues, duplicate_of and subtasks, via the issue_relations table)
+ * outward from one issue, in both directions: the issues it points at and
+ * the issues that point at it. The cluster found within `depth` hops is
+ * rendered as a Mermaid or Graphviz DOT diagram for the search CLI's `graph`
+ * command.
+ *
+ * A Jira link is stored on both of its issues (once as "duplicates", once as
+ * "is duplicated by"); the graph keeps just the outward side when both are in
+ * the database.
+ */
+
+import { Database } from "bun:sqlite";
+
+// Walks stop adding issues past this many, so a hub issue cannot pull in half the project
+export const MAX_GRAPH_NODES = 200;
+
+export interface GraphNode {
+  key: string;
+  summary: string | null;
+  status: string | null;
+  depth: number;          // hops from the root
+  missing?: boolean;      // linked but not in the database (another project, or not downloaded)
+  tombstone?: string;     // deleted or moved upstream
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: string;           // link, related, duplicate_of or subtask
+  relation: string;       // label, read from -> to
+}
+
+export interface IssueGraph {
+  root: string;
+  depth: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;     // MAX_GRAPH_NODES reached before the walk finished
+}
+
+/** Issues within `depth` links of `root`, following relations both ways, and the links between them */
+export function buildGraph(db: Database, root: string, depth: number, maxNodes = MAX_GRAPH_NODES): IssueGraph {
+  const depths = new Map<string, number>([[root, 0]]);
+  const neighbours = db.query(`
+    SELECT key, target_key FROM issue_relations
+    WHERE key IN (SELECT value FROM json_each($keys)) OR target_key IN (SELECT value FROM json_each($keys))
+  `);
+
+  let frontier = [root];
+  let truncated = false;
+  for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+    const next: string[] = [];
+    for (const row of neighbours.all({ $keys: JSON.stringify(frontier) }) as any[]) {
+      for (const key of [row.key, row.target_key]) {
+        if (depths.has(key)) continue;
+        if (depths.size >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        depths.set(key, hop);
+        next.push(key);
+      }
+    }
+    frontier = next;
+  }
+
+  const keys = JSON.stringify([...depths.keys()]);
+  const rows = db.query(`
+    SELECT key, target_key, kind, relation, inward FROM issue_relations
+    WHERE key IN (SELECT value FROM json_each($keys)) AND target_key IN (SELECT value FROM json_each($keys))
+    ORDER BY key, target_key, kind
+  `).all({ $keys: keys }) as any[];
+
+  // Drop the inward half of links whose outward half is here, and repeats of symmetric relations
+  const outward = new Set(rows.filter(r => r.kind === "link" && !r.inward).map(r => `${r.key} ${r.target_key}`));
+  const seen = new Set<string>();
+  const edges: GraphEdge[] = [];
+  for (const r of rows) {
+    if (r.inward && outward.has(`${r.target_key} ${r.key}`)) continue;
+    const id = r.kind === "related" ? [r.key, r.target_key].sort().join(" ") : `${r.key} ${r.target_key}`;
+    if (seen.has(`${r.kind} ${r.relation} ${id}`)) continue;
+    seen.add(`${r.kind} ${r.relation} ${id}`);
+    edges.push({ from: r.key, to: r.target_key, kind: r.kind, relation: r.relation });
+  }
+
+  const tombstones = !!db.query(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'issue_tombstones'`).get();
+  const details = new Map((db.query(`
+    SELECT i.key,
+           json_extract(i.data, '$.summary') AS summary,
+           json_extract(i.data, '$.status') AS status,
+           ${tombstones ? "t.status" : "NULL"} AS tombstone
+    FROM issues i
+    ${tombstones ? "LEFT JOIN issue_tombstones t ON t.key = i.key" : ""}
+    WHERE i.key IN (SELECT value FROM json_each($keys))
+  `).all({ $keys: keys }) as any[]).map(r => [r.key, r]));
+
+  const nodes: GraphNode[] = [...depths].map(([key, hops]) => {
+    const issue = details.get(key);
+    if (!issue) return { key, summary: null, status: null, depth: hops, missing: true };
+    return {
+      key,
+      summary: issue.summary,
+      status: issue.status,
+      depth: hops,
+      ...(issue.tombstone ? { tombstone: issue.tombstone } : {}),
+    };
+  });
+  nodes.sort((a, b) => a.depth - b.depth || a.key.localeCompare(b.key, undefined, { numeric: true }));
+
+  return { root, depth, nodes, edges, truncated };
+}
+
+function shorten(text: string | null, max = 50): string {
+  if (!text) return "";
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+/** Mermaid flowchart; paste into a ```mermaid block */
+export function renderMermaid(graph: IssueGraph): string {
+  const id = (key: string) => key.replace(/[^A-Za-z0-9]/g, "_");
+  const escape = (text: string) => text.replace(/"/g, "#quot;").replace(/\|/g, "#124;");
+  const lines = ["graph LR"];
+
+  for (const node of graph.nodes) {
+    const detail = node.missing
+      ? "not in database"
+      : `${escape(shorten(node.summary))}<br/>[${escape(node.status || "?")}${node.tombstone ? `, ${node.tombstone} upstream` : ""}]`;
+    lines.push(`  ${id(node.key)}["${node.key}: ${detail}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === "duplicate_of" ? "-.->" : "-->";
+    lines.push(`  ${id(edge.from)} ${arrow}|${escape(edge.relation)}| ${id(edge.to)}`);
+  }
+
+  lines.push("  classDef root stroke-width:3px");
+  lines.push("  classDef missing stroke-dasharray:5 5");
+  lines.push(`  class ${id(graph.root)} root`);
+  const missing = graph.nodes.filter(n => n.missing).map(n => id(n.key));
+  if (missing.length > 0) lines.push(`  class ${missing.join(",")} missing`);
+  return lines.join("\n");
+}
+
+/** Graphviz DOT; render with `dot -Tsvg` */
+export function renderDot(graph: IssueGraph): string {
+  const escape = (text: string) => text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const quote = (text: string) => `"${escape(text)}"`;
+  const lines = [`digraph ${quote(graph.root)} {`, "  rankdir=LR;", "  node [shape=box];"];
+
+  for (const node of graph.nodes) {
+    const label = node.missing
+      ? [node.key, "not in database"]
+      : [node.key, shorten(node.summary), `[${node.status || "?"}${node.tombstone ? `, ${node.tombstone} upstream` : ""}]`];
+    const style = [
+      node.key === graph.root ? "penwidth=3" : "",
+      node.missing ? "style=dashed" : "",
+    ].filter(Boolean);
+    // DOT's own \n escape separates label lines
+    lines.push(`  ${quote(node.key)} [label="${label.map(escape).join("\\n")}"${style.map(s => `, ${s}`).join("")}];`);
+  }
+  for (const edge of graph.edges) {
+    const style = edge.kind === "duplicate_of" ? ", style=dashed" : "";
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.relation)}${style}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
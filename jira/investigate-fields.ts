@@ -4,11 +4,18 @@
  * Fetches a sample of issues with all fields and analyzes what's available.
  * Outputs a report of all fields, their types, and sample values.
  * 
+ * With --diff, compares the sampled fields against jira/field-map.json
+ * instead: reports custom fields the mapping does not know about, mapped
+ * fields Jira renamed or no longer returns, and writes a proposed mapping.
+ * 
  * Usage:
  *   bun run jira/investigate-fields.ts --cookie "JSESSIONID=xxx; seraph.rememberme.cookie=xxx"
+ *   bun run jira/investigate-fields.ts --cookie-file cookies.txt --diff
+ *   bun run jira/investigate-fields.ts --input sample-issues.json --diff
  */
 
 import { parseArgs } from "util";
+import { DEFAULT_FIELD_MAP_PATH, formatFieldMap, loadFieldMap, type FieldMap } from "./field-map";
 
 const BASE_URL = "https://jira.hl7.org/rest/api/2/search";
 
@@ -44,6 +51,136 @@ async function fetchSample(cookies: string, startAt: number = 0, maxResults: num
   return response.json();
 }
 
+function analyzeFields(allIssues: any[], fieldNames: Record<string, string>): Map<string, FieldInfo> {
+  const fieldStats: Map<string, FieldInfo> = new Map();
+
+  for (const issue of allIssues) {
+    for (const [fieldId, value] of Object.entries(issue.fields)) {
+      if (!fieldStats.has(fieldId)) {
+        fieldStats.set(fieldId, {
+          name: fieldNames[fieldId] || fieldId,
+          type: "",
+          samples: [],
+          nonNullCount: 0,
+        });
+      }
+      
+      const info = fieldStats.get(fieldId)!;
+      
+      if (value !== null && value !== undefined && value !== "" && 
+          !(Array.isArray(value) && value.length === 0)) {
+        info.nonNullCount++;
+        if (info.samples.length < 3) {
+          info.samples.push(value);
+        }
+        const vtype = getValueType(value);
+        if (!info.type || info.type === "null") {
+          info.type = vtype;
+        }
+      }
+    }
+  }
+
+  return fieldStats;
+}
+
+/** "Selected Ballot" -> "selected_ballot", unique among the mapped names */
+function proposeName(jiraName: string, taken: Set<string>): string {
+  const base = jiraName.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^(?=\d)/, "field_") || "field";
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Compare sampled fields with the mapping, print the differences and write a
+ * proposed mapping. Nothing is proposed for fields with no data in the sample.
+ */
+async function diffAgainstMapping(
+  map: FieldMap,
+  fieldStats: Map<string, FieldInfo>,
+  fieldNames: Record<string, string>,
+  sampleCount: number,
+  proposalPath: string
+) {
+  const known = (id: string) => id in map.fields || id in map.skip;
+  const customIds = new Set(
+    [...Object.keys(fieldNames), ...fieldStats.keys()].filter(id => id.startsWith("customfield_"))
+  );
+
+  const newWithData: string[] = [];
+  const newEmpty: string[] = [];
+  for (const id of [...customIds].sort()) {
+    if (known(id)) continue;
+    if ((fieldStats.get(id)?.nonNullCount || 0) > 0) newWithData.push(id);
+    else newEmpty.push(id);
+  }
+  newWithData.sort((a, b) => fieldStats.get(b)!.nonNullCount - fieldStats.get(a)!.nonNullCount);
+
+  const renamed = Object.entries(map.fields).filter(([id, field]) =>
+    field.jira_name && fieldNames[id] && fieldNames[id] !== field.jira_name
+  );
+  const missing = Object.keys(map.fields).filter(id => !(id in fieldNames) && !fieldStats.has(id));
+
+  console.log(`\n${"-".repeat(120)}`);
+  console.log(`FIELD MAPPING DIFF (mapping version ${map.version}, ${sampleCount} issues sampled)`);
+  console.log(`${"-".repeat(120)}\n`);
+
+  console.log(`## NEW CUSTOM FIELDS WITH DATA (${newWithData.length}) - proposed for mapping\n`);
+  if (newWithData.length > 0) {
+    console.log("| Field ID | Name | Usage | Type | Sample Values |");
+    console.log("|----------|------|-------|------|---------------|");
+    for (const id of newWithData) {
+      const info = fieldStats.get(id)!;
+      const pct = ((info.nonNullCount / sampleCount) * 100).toFixed(0);
+      const samples = info.samples.slice(0, 2).map(s => summarizeValue(s)).join("; ");
+      console.log(`| ${id} | ${info.name} | ${pct}% | ${info.type} | ${samples} |`);
+    }
+  }
+
+  console.log(`\n## NEW CUSTOM FIELDS WITHOUT DATA IN THE SAMPLE (${newEmpty.length})\n`);
+  for (const id of newEmpty) console.log(`  - ${id}: ${fieldNames[id] || "(no name)"}`);
+
+  console.log(`\n## MAPPED FIELDS RENAMED IN JIRA (${renamed.length})\n`);
+  for (const [id, field] of renamed) {
+    console.log(`  - ${id} (${field.name}): "${field.jira_name}" -> "${fieldNames[id]}"`);
+  }
+
+  console.log(`\n## MAPPED FIELDS JIRA NO LONGER RETURNS (${missing.length})\n`);
+  for (const id of missing) console.log(`  - ${id} (${map.fields[id].name})`);
+
+  // Proposal: add new fields with data, record current Jira names
+  const proposal: FieldMap = {
+    version: map.version,
+    fields: {},
+    skip: { ...map.skip },
+  };
+  const taken = new Set(Object.values(map.fields).map(f => f.name));
+  for (const [id, field] of Object.entries(map.fields)) {
+    proposal.fields[id] = fieldNames[id] ? { ...field, jira_name: fieldNames[id] } : field;
+  }
+  for (const id of newWithData) {
+    proposal.fields[id] = {
+      name: proposeName(fieldStats.get(id)!.name, taken),
+      group: "Proposed",
+      description: "",
+      jira_name: fieldNames[id],
+    };
+  }
+
+  const current = formatFieldMap(map);
+  if (formatFieldMap(proposal) === current) {
+    console.log(`\nMapping is up to date; no proposal written.`);
+    return;
+  }
+  proposal.version = map.version + 1;
+  await Bun.write(proposalPath, formatFieldMap(proposal));
+  console.log(`\nWrote proposed mapping (version ${proposal.version}) to ${proposalPath}`);
+  console.log(`Review the names, move unwanted fields to "skip", then copy it over jira/field-map.json`);
+  console.log(`and run: bun run jira:reindex`);
+}
+
 function getValueType(val: any): string {
   if (val === null || val === undefined) return "null";
   if (Array.isArray(val)) {
@@ -88,82 +225,77 @@ async function main() {
       "cookie-file": { type: "string" },
       "sample-size": { type: "string", default: "100" },
       "dump-json": { type: "boolean", default: false },
+      input: { type: "string" },
+      diff: { type: "boolean", default: false },
+      "field-map": { type: "string", default: DEFAULT_FIELD_MAP_PATH },
+      proposal: { type: "string", default: new URL("./field-map.proposed.json", import.meta.url).pathname },
     },
   });
 
-  let cookies: string;
+  let cookies: string | null = null;
   
   if (values["cookie-file"]) {
     cookies = await Bun.file(values["cookie-file"]).text();
   } else if (values.cookie) {
     cookies = values.cookie;
-  } else {
+  } else if (!values.input) {
     console.error("Usage: bun run jira/investigate-fields.ts --cookie 'JSESSIONID=...'");
     console.error("   or: bun run jira/investigate-fields.ts --cookie-file cookies.txt");
+    console.error("   or: bun run jira/investigate-fields.ts --input sample-issues.json");
     console.error("\nOptions:");
     console.error("   --sample-size N    Number of issues to sample (default: 100)");
     console.error("   --dump-json        Save raw JSON to sample-issues.json");
+    console.error("   --input FILE       Analyze a saved --dump-json file instead of fetching");
+    console.error("   --diff             Compare fields against the mapping and write a proposal");
+    console.error("   --field-map PATH   Mapping to compare against (default: jira/field-map.json)");
+    console.error("   --proposal PATH    Where --diff writes the proposal (default: jira/field-map.proposed.json)");
     process.exit(1);
   }
 
-  cookies = cookies.trim();
   const sampleSize = parseInt(values["sample-size"] as string);
   const dumpJson = values["dump-json"] as boolean;
 
-  console.log(`Fetching ${sampleSize} issues with all fields...\n`);
-
   // Fetch issues in batches
-  const allIssues: any[] = [];
+  let allIssues: any[] = [];
   let fieldNames: Record<string, string> = {};
   
-  for (let startAt = 0; startAt < sampleSize; startAt += 50) {
-    const batchSize = Math.min(50, sampleSize - startAt);
-    const response = await fetchSample(cookies, startAt, batchSize);
-    
-    if (response.names) {
-      fieldNames = { ...fieldNames, ...response.names };
+  if (values.input) {
+    const saved = await Bun.file(values.input).json();
+    allIssues = saved.issues || [];
+    fieldNames = saved.names || {};
+    console.log(`Loaded ${allIssues.length} issues from ${values.input}`);
+  } else {
+    cookies = cookies!.trim();
+    console.log(`Fetching ${sampleSize} issues with all fields...\n`);
+
+    for (let startAt = 0; startAt < sampleSize; startAt += 50) {
+      const batchSize = Math.min(50, sampleSize - startAt);
+      const response = await fetchSample(cookies, startAt, batchSize);
+      
+      if (response.names) {
+        fieldNames = { ...fieldNames, ...response.names };
+      }
+      
+      allIssues.push(...response.issues);
+      console.log(`  Fetched ${allIssues.length}/${sampleSize}...`);
+      
+      if (response.issues.length < batchSize) break;
+      await Bun.sleep(200);
     }
-    
-    allIssues.push(...response.issues);
-    console.log(`  Fetched ${allIssues.length}/${sampleSize}...`);
-    
-    if (response.issues.length < batchSize) break;
-    await Bun.sleep(200);
-  }
 
-  if (dumpJson) {
-    await Bun.write("sample-issues.json", JSON.stringify({ names: fieldNames, issues: allIssues }, null, 2));
-    console.log(`\nSaved raw JSON to sample-issues.json`);
+    if (dumpJson) {
+      await Bun.write("sample-issues.json", JSON.stringify({ names: fieldNames, issues: allIssues }, null, 2));
+      console.log(`\nSaved raw JSON to sample-issues.json`);
+    }
   }
 
   // Analyze fields
-  const fieldStats: Map<string, FieldInfo> = new Map();
+  const fieldStats = analyzeFields(allIssues, fieldNames);
 
-  for (const issue of allIssues) {
-    for (const [fieldId, value] of Object.entries(issue.fields)) {
-      if (!fieldStats.has(fieldId)) {
-        fieldStats.set(fieldId, {
-          name: fieldNames[fieldId] || fieldId,
-          type: "",
-          samples: [],
-          nonNullCount: 0,
-        });
-      }
-      
-      const info = fieldStats.get(fieldId)!;
-      
-      if (value !== null && value !== undefined && value !== "" && 
-          !(Array.isArray(value) && value.length === 0)) {
-        info.nonNullCount++;
-        if (info.samples.length < 3) {
-          info.samples.push(value);
-        }
-        const vtype = getValueType(value);
-        if (!info.type || info.type === "null") {
-          info.type = vtype;
-        }
-      }
-    }
+  if (values.diff) {
+    const map = loadFieldMap(values["field-map"] as string);
+    await diffAgainstMapping(map, fieldStats, fieldNames, allIssues.length, values.proposal as string);
+    return;
   }
 
   // Sort by usage and print report
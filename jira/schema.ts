@@ -0,0 +1,14 @@
+/**
+ * Jira database schema version. download.ts migrates databases up to this
+ * version; search.ts warns when a database has a different one.
+ */
+export const SCHEMA_VERSION = 11;
+
+/**
+ * SQL for the project of an issues row, optionally through a table alias.
+ * Documents stored before the project field existed fall back to the key prefix.
+ */
+export function projectSql(alias?: string): string {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  return `COALESCE(json_extract(${column("data")}, '$.project'), substr(${column("key")}, 1, instr(${column("key")}, '-') - 1))`;
+}
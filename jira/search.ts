@@ -7,25 +7,96 @@
  *   bun run jira/search.ts <command> [options]
  * 
  * Commands:
- *   fts <query>        Full-text search across all indexed fields
+ *   fts <query>        Full-text search across all indexed fields (--comments: matching comments)
  *   ballot <key>       Find issues linked to a specific ballot (e.g., BALLOT-89190)
  *   resource <name>    Find issues for a specific FHIR resource
  *   version <ver>      Find issues for a specific FHIR version
  *   breaking           Find breaking (non-compatible) changes
  *   status <status>    Find issues by status
  *   get <key>          Get brief issue view
- *   snapshot <key>     Get complete issue snapshot (all fields, comments, metadata)
+ *   snapshot <key>     Get complete issue snapshot (all fields, comments, metadata; --comment N for one comment)
+ *                      Several keys, --from-file or --query snapshot a batch; --out-dir writes one file per issue
+ *   history <key>      Show status/resolution transition timeline
+ *   export [query]     Stream matching issues as CSV, TSV, JSON Lines or a Markdown table
  *   stats              Show database statistics
+ *   meta [key]         Show database metadata (generation date, schema version, ...)
+ *   ingest-log [run]   List download runs, or the issues one run added or changed
  *   sql <query>        Execute raw SQL query
  */
 
 import { Database } from "bun:sqlite";
 import { parseArgs } from "util";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, extname, join } from "path";
+import { wikiToMarkdown, wikiToText } from "./wiki";
+import { buildGraph, MAX_GRAPH_NODES, renderDot, renderMermaid } from "./graph";
+import { cosine, inverseDocumentFrequencies, issueTermCounts, sharedTerms, tfidfVector, topTerms } from "./similarity";
+import { projectSql, SCHEMA_VERSION } from "./schema";
+import { checkSchema, printMeta, readMeta } from "../shared/meta";
+import { fhirQuery } from "../shared/fhir-tokens";
+import { expandSynonyms, explainQuery } from "../shared/synonyms";
+import { showIngestLog, type IngestLogView } from "../shared/ingest";
+import { getProvider, hasEmbeddings, providerNames, reciprocalRankFusion, vectorSearch } from "../shared/embeddings";
 
 const DB_PATH = process.env.FHIR_JIRA_DB || new URL("./data.db", import.meta.url).pathname;
+const ATTACHMENT_DIR = process.env.FHIR_JIRA_ATTACHMENTS || join(dirname(DB_PATH), "attachments");
+
+// issues_fts columns in index order, with the labels used in text output
+const FTS_COLUMNS: [string, string][] = [
+  ["key", "key"],
+  ["summary", "summary"],
+  ["description", "description"],
+  ["specification", "specification"],
+  ["work_group", "work group"],
+  ["related_artifacts", "artifacts"],
+  ["resolution_description", "resolution"],
+  ["labels", "labels"],
+  ["comments_text", "comments"],
+  ["attachments_text", "attachments"],
+  ["fhir_terms", "FHIR terms"],
+];
+
+// Private-use characters marking matched terms until they are rendered as **term**
+const MATCH_START = "\uE001";
+const MATCH_END = "\uE002";
+const SNIPPET_TOKENS = 20;
+
+// similar: FTS5 finds candidates with the source issue's top terms, which are then ranked by TF-IDF cosine
+const SIMILAR_QUERY_TERMS = 24;
+const SIMILAR_CANDIDATES = 200;
+const DEFAULT_DUPLICATE_SCORE = 0.35;
+
+// --semantic/--hybrid: how many issues each ranking contributes before fusion
+const SEMANTIC_CANDIDATES = 100;
+
+// Jira issue keys, e.g. FHIR-43499 (snapshot key lists)
+const ISSUE_KEY = /^[A-Z][A-Z0-9_]*-\d+$/;
+
+// Attachment excerpts in snapshots
+const EXCERPT_LINES = 20;
+const EXCERPT_CHARS = 1500;
+
+let schemaChecked = false;
 
 function getDb(): Database {
-  return new Database(DB_PATH, { readonly: true });
+  const db = new Database(DB_PATH, { readonly: true });
+  if (!schemaChecked) {
+    schemaChecked = true;
+    const warning = checkSchema(db, SCHEMA_VERSION, "bun run jira:migrate");
+    if (warning) console.error(`⚠️  ${warning}`);
+  }
+  return db;
+}
+
+/** "2026-01-15T06:00:00.000Z (since-last)" - when the data was downloaded */
+function dataDate(meta: Record<string, string>): string {
+  if (!meta.generated_at) return "unknown (database predates the meta table)";
+  return meta.generation_mode ? `${meta.generated_at} (${meta.generation_mode})` : meta.generated_at;
+}
+
+/** Check for optional tables that older databases may not have */
+function hasTable(db: Database, name: string): boolean {
+  return !!db.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = $name`).get({ $name: name });
 }
 
 /** Parse JSON from database row */
@@ -37,7 +108,7 @@ function parseIssue(row: any): any {
   return row.data || row;
 }
 
-function formatResults(rows: any[]): void {
+function formatResults(rows: any[], offset = 0): void {
   if (rows.length === 0) {
     console.log("No results found.");
     return;
@@ -45,8 +116,19 @@ function formatResults(rows: any[]): void {
 
   for (const row of rows) {
     const issue = parseIssue(row);
-    console.log(`\n${issue.key} [${issue.status}]`);
+    const tombstone = row.tombstone ? ` (${row.tombstone} upstream)` : "";
+    console.log(`\n${issue.key} [${issue.status}]${tombstone}`);
     console.log(`  ${(issue.summary || "").slice(0, 80)}${issue.summary?.length > 80 ? "..." : ""}`);
+    if (row.match) {
+      const label = (column: string) => FTS_COLUMNS.find(([name]) => name === column)![1];
+      const also = row.match.columns.filter((c: string) => c !== row.match.column).map(label);
+      console.log(`  Match in ${label(row.match.column)}${also.length ? ` (also ${also.join(", ")})` : ""}: ${row.match.snippet}`);
+    }
+    if (row.semantic) {
+      const fts = row.semantic.fts_rank ? `, FTS rank ${row.semantic.fts_rank}` : "fts_rank" in row.semantic ? ", no FTS match" : "";
+      const similarity = row.semantic.similarity === null ? "not in the top embedding matches" : row.semantic.similarity.toFixed(2);
+      console.log(`  Similarity: ${similarity}${fts}`);
+    }
     
     const spec = Array.isArray(issue.specification) ? issue.specification.join(", ") : issue.specification;
     const artifacts = Array.isArray(issue.related_artifacts) ? issue.related_artifacts.join(", ") : issue.related_artifacts;
@@ -62,139 +144,561 @@ function formatResults(rows: any[]): void {
     if (issue.change_impact) console.log(`  Impact: ${issue.change_impact}`);
   }
   
-  console.log(`\n--- ${rows.length} result(s) ---`);
+  console.log(offset > 0
+    ? `\n--- results ${offset + 1}-${offset + rows.length} ---`
+    : `\n--- ${rows.length} result(s) ---`);
 }
 
+/** snippet() of every issues_fts column (all of fhir_terms, one identifier per line), for matchInfo() */
+const SNIPPET_COLUMNS_SQL = FTS_COLUMNS
+  .map(([name], n) => name === "fhir_terms"
+    ? `highlight(issues_fts, ${n}, '${MATCH_START}', '${MATCH_END}') AS snippet_${n}`
+    : `snippet(issues_fts, ${n}, '${MATCH_START}', '${MATCH_END}', '...', ${SNIPPET_TOKENS}) AS snippet_${n}`)
+  .join(", ");
+
+/**
+ * Which columns of an FTS hit matched, and an excerpt from the one with the
+ * most matched terms. Columns without a match come back from snippet() with
+ * no markers. When only fhir_terms matched, the excerpt lists the
+ * identifiers that matched (the first word of each fhir_terms line).
+ */
+function matchInfo(row: any): { column: string; columns: string[]; snippet: string } | null {
+  let best = -1;
+  let bestHits = 0;
+  const columns: string[] = [];
+  FTS_COLUMNS.forEach(([name], n) => {
+    const hits = (row[`snippet_${n}`] || "").split(MATCH_START).length - 1;
+    if (hits === 0) return;
+    columns.push(name);
+    if (name === "fhir_terms" && best >= 0) return;
+    if (hits > bestHits) {
+      best = n;
+      bestHits = hits;
+    }
+  });
+  if (best < 0) return null;
+  if (FTS_COLUMNS[best][0] === "fhir_terms") {
+    const identifiers = (row[`snippet_${best}`] as string)
+      .split("\n")
+      .filter(line => line.includes(MATCH_START))
+      .map(line => line.split(" ")[0].replaceAll(MATCH_START, "").replaceAll(MATCH_END, ""));
+    return { column: "fhir_terms", columns, snippet: identifiers.join(", ") };
+  }
+  const snippet = (row[`snippet_${best}`] as string)
+    .replaceAll(MATCH_START, "**")
+    .replaceAll(MATCH_END, "**")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { column: FTS_COLUMNS[best][0], columns, snippet };
+}
+
+// Filters matched against issue_values, one value of a (possibly multi-valued) field at a time
+type ValueFilter = "ballot" | "status" | "version" | "resource" | "workGroup" | "impact" | PersonRole;
+
+// People match by display name or username
+type PersonRole = "reporter" | "assignee" | "commenter";
+const PERSON_ROLES: PersonRole[] = ["reporter", "assignee", "commenter"];
+
+const VALUE_FILTERS: Record<ValueFilter, { field: string; option: string }> = {
+  ballot: { field: "selected_ballot", option: "ballot" },
+  status: { field: "status", option: "status" },
+  version: { field: "raised_in_version", option: "version" },
+  resource: { field: "related_artifacts", option: "resource" },
+  workGroup: { field: "work_group", option: "workgroup" },
+  impact: { field: "change_impact", option: "impact" },
+  reporter: { field: "reporter", option: "reporter" },
+  assignee: { field: "assignee", option: "assignee" },
+  commenter: { field: "commenter", option: "commenter" },
+};
+
 interface SearchFilters {
   query?: string;
-  ballot?: string;
-  status?: string;
-  version?: string;
-  resource?: string;
-  workGroup?: string;
-  impact?: string;
+  ballot?: string[];        // each value filter matches any of its values
+  status?: string[];
+  version?: string[];
+  resource?: string[];
+  workGroup?: string[];
+  impact?: string[];
+  reporter?: string[];
+  assignee?: string[];
+  commenter?: string[];
+  exclude?: Partial<Record<ValueFilter, string[]>>;  // --not-*: none of these values
+  fuzzy?: boolean;          // value filters match substrings instead of whole values
+  projects?: string[];
+  includeDeleted?: boolean;
+  createdAfter?: string;    // YYYY-MM-DD, inclusive
+  createdBefore?: string;   // YYYY-MM-DD, exclusive
+  updatedSince?: string;    // YYYY-MM-DD, inclusive
+  resolvedBetween?: [string, string];  // YYYY-MM-DD, both inclusive
+  sort?: SortField;
+  order?: "asc" | "desc";
+  offset?: number;
+  noExpand?: boolean;       // query as typed, without synonyms
+  explain?: boolean;        // print how the query was rewritten
+  facets?: boolean;         // also count the full match set by FACETS
+  mode?: "semantic" | "hybrid";  // rank by embeddings, alone or fused with FTS
+  provider?: string;        // embedding provider for mode
 }
 
-function search(filters: SearchFilters, limit: number, json: boolean): void {
-  const db = getDb();
-  
+type SortField = "rank" | "created" | "updated" | "resolved" | "key";
+
+// ORDER BY for each --sort field, and its direction unless --order says otherwise.
+// Dates put issues without one last; key sorts FHIR-2 before FHIR-10.
+const SORTS: Record<SortField, { sql: string[]; order: "asc" | "desc" }> = {
+  rank: { sql: ["fts.rank"], order: "asc" },
+  created: { sql: ["json_extract(i.data, '$.created_at')"], order: "desc" },
+  updated: { sql: ["json_extract(i.data, '$.updated_at')"], order: "desc" },
+  resolved: { sql: ["json_extract(i.data, '$.resolved_at')"], order: "desc" },
+  key: { sql: [projectSql("i"), "CAST(substr(i.key, instr(i.key, '-') + 1) AS INTEGER)"], order: "asc" },
+};
+
+// Fields counted by --facets: [name in output, JSON path in the issue document]
+const FACETS: [string, string][] = [
+  ["status", "$.status"],
+  ["work_group", "$.work_group"],
+  ["specification", "$.specification"],
+  ["version", "$.raised_in_version"],
+  ["change_impact", "$.change_impact"],
+];
+
+// Values listed per facet in text output (--json has them all)
+const FACET_TEXT_VALUES = 10;
+
+type ExportFormat = "csv" | "tsv" | "jsonl" | "md-table";
+const EXPORT_FORMATS: ExportFormat[] = ["csv", "tsv", "jsonl", "md-table"];
+
+// Columns export can write: a value or a list of values from the issue document.
+// Lists are joined with EXPORT_SEPARATOR except in JSON Lines, which keeps them as arrays.
+const EXPORT_COLUMNS: Record<string, (issue: any, tombstone: string | null) => any> = {
+  key: issue => issue.key,
+  url: issue => issue.url,
+  project: issue => issue.project,
+  summary: issue => issue.summary,
+  description: issue => wikiToText(issue.description),
+  status: issue => issue.status,
+  resolution: issue => issue.resolution,
+  priority: issue => issue.priority,
+  issue_type: issue => issue.issue_type,
+  reporter: issue => issue.reporter,
+  assignee: issue => issue.assignee,
+  created_at: issue => issue.created_at,
+  updated_at: issue => issue.updated_at,
+  resolved_at: issue => issue.resolved_at,
+  specification: issue => issue.specification,
+  raised_in_version: issue => issue.raised_in_version,
+  related_artifacts: issue => issue.related_artifacts,
+  work_group: issue => issue.work_group,
+  selected_ballot: issue => issue.selected_ballot,
+  grouping: issue => issue.grouping,
+  applied_for_version: issue => issue.applied_for_version,
+  resolution_description: issue => wikiToText(issue.resolution_description),
+  resolution_vote: issue => issue.resolution_vote,
+  vote_date: issue => issue.vote_date,
+  change_category: issue => issue.change_category,
+  change_impact: issue => issue.change_impact,
+  related_url: issue => issue.related_url,
+  related_pages: issue => issue.related_pages,
+  related_sections: issue => issue.related_sections,
+  labels: issue => issue.labels,
+  components: issue => issue.components,
+  issue_links: issue => (issue.issue_links || []).map((l: any) => `${l.relation} ${l.target_key}`),
+  related_issues: issue => issue.related_issues,
+  duplicate_of: issue => issue.duplicate_of,
+  comment_count: issue => issue.comments?.length || 0,
+  attachment_count: issue => issue.attachments?.length || 0,
+  tombstone: (_, tombstone) => tombstone,
+};
+
+const DEFAULT_EXPORT_COLUMNS = [
+  "key", "summary", "status", "resolution", "work_group", "specification", "related_artifacts",
+  "raised_in_version", "change_impact", "reporter", "created_at", "updated_at", "resolved_at",
+];
+
+const EXPORT_SEPARATOR = "; ";
+
+interface FilterSql {
+  conditions: string[];     // over issues i (and issue_tombstones t)
+  tombstoneColumn: string;
+  tombstoneJoin: string;
+}
+
+/** SQL conditions for the non-text filters; adds their values to params */
+function filterSql(db: Database, filters: SearchFilters, params: Record<string, any>): FilterSql {
   const conditions: string[] = [];
-  const params: Record<string, any> = { $limit: limit };
-  let useFts = false;
   
-  // Full-text search
-  if (filters.query) {
-    useFts = true;
-    params.$query = filters.query;
+  // Value filters: whole values (Patient is not PatientLink, R4 is not R4B) unless --fuzzy
+  const valueFilters = (Object.keys(VALUE_FILTERS) as ValueFilter[])
+    .flatMap(name => [[name, filters[name], false], [name, filters.exclude?.[name], true]] as const)
+    .filter(([, values]) => values?.length);
+  if (valueFilters.length > 0 && !hasTable(db, "issue_values")) {
+    console.error("This database has no issue_values table. Run: bun run jira:reindex");
+    process.exit(1);
+  }
+  for (const [name, values, negated] of valueFilters) {
+    const names = values!.map((value, n) => {
+      const param = `$${negated ? "not_" : ""}${name}${n}`;
+      params[param] = filters.fuzzy ? `%${value}%` : name === "ballot" ? ballotKey(value) : value;
+      return param;
+    });
+    const match = filters.fuzzy ? `(${names.map(n => `value LIKE ${n}`).join(" OR ")})` : `value IN (${names.join(", ")})`;
+    conditions.push(`i.key ${negated ? "NOT IN" : "IN"} (SELECT key FROM issue_values WHERE field = '${VALUE_FILTERS[name].field}' AND ${match})`);
   }
   
-  // Ballot filter
-  if (filters.ballot) {
-    const key = filters.ballot.toUpperCase().startsWith("BALLOT-") 
-      ? filters.ballot.toUpperCase() 
-      : `BALLOT-${filters.ballot}`;
-    conditions.push(`json_extract(i.data, '$.selected_ballot') LIKE $ballot`);
-    params.$ballot = `%${key}%`;
+  // Project filter (older databases predate the project field, so fall back to the key prefix)
+  if (filters.projects?.length) {
+    const names = filters.projects.map((p, n) => {
+      params[`$project${n}`] = p.toUpperCase();
+      return `$project${n}`;
+    });
+    conditions.push(`${projectSql("i")} IN (${names.join(", ")})`);
   }
   
-  // Status filter
-  if (filters.status) {
-    conditions.push(`json_extract(i.data, '$.status') LIKE $status`);
-    params.$status = `%${filters.status}%`;
+  // Date filters compare the date part of Jira's timestamps (2024-05-01T10:00:00.000+0000)
+  if (filters.createdAfter) {
+    conditions.push(`substr(json_extract(i.data, '$.created_at'), 1, 10) >= $createdAfter`);
+    params.$createdAfter = filters.createdAfter;
+  }
+  if (filters.createdBefore) {
+    conditions.push(`substr(json_extract(i.data, '$.created_at'), 1, 10) < $createdBefore`);
+    params.$createdBefore = filters.createdBefore;
+  }
+  if (filters.updatedSince) {
+    conditions.push(`substr(json_extract(i.data, '$.updated_at'), 1, 10) >= $updatedSince`);
+    params.$updatedSince = filters.updatedSince;
+  }
+  if (filters.resolvedBetween) {
+    conditions.push(`substr(json_extract(i.data, '$.resolved_at'), 1, 10) BETWEEN $resolvedFrom AND $resolvedTo`);
+    [params.$resolvedFrom, params.$resolvedTo] = filters.resolvedBetween;
   }
   
-  // Version filter
-  if (filters.version) {
-    conditions.push(`json_extract(i.data, '$.raised_in_version') LIKE $version`);
-    params.$version = `%${filters.version}%`;
+  // Issues deleted or moved upstream are hidden unless asked for
+  const tombstones = hasTable(db, "issue_tombstones");
+  const tombstoneColumn = tombstones ? "t.status AS tombstone" : "NULL AS tombstone";
+  const tombstoneJoin = tombstones ? "LEFT JOIN issue_tombstones t ON t.key = i.key" : "";
+  if (tombstones && !filters.includeDeleted) {
+    conditions.push(`t.key IS NULL`);
   }
   
-  // Resource/artifact filter
-  if (filters.resource) {
-    conditions.push(`json_extract(i.data, '$.related_artifacts') LIKE $resource`);
-    params.$resource = `%${filters.resource}%`;
+  return { conditions, tombstoneColumn, tombstoneJoin };
+}
+
+/** A ballot as stored in selected_ballot: 89190 -> BALLOT-89190 */
+function ballotKey(ballot: string): string {
+  return ballot.toUpperCase().startsWith("BALLOT-") ? ballot.toUpperCase() : `BALLOT-${ballot}`;
+}
+
+/** The FTS5 query for filters.query: synonyms expanded, FHIR paths rewritten */
+function ftsQuery(filters: SearchFilters, json: boolean): string {
+  const expanded = filters.noExpand ? null : expandSynonyms(filters.query!);
+  const query = fhirQuery(expanded ? expanded.query : filters.query!);
+  if (filters.explain) {
+    // Keep --json output parseable
+    const log = json ? console.error : console.log;
+    for (const line of explainQuery(filters.query!, expanded, query)) log(line);
+  }
+  return query;
+}
+
+/** Describe the active filters, e.g. `text: "x", status: Triaged` */
+function describeFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.query) parts.push(`text: "${filters.query}"`);
+  for (const [name, { option }] of Object.entries(VALUE_FILTERS) as [ValueFilter, { option: string }][]) {
+    if (filters[name]?.length) parts.push(`${option}: ${filters[name]!.join(" | ")}`);
+    if (filters.exclude?.[name]?.length) parts.push(`not ${option}: ${filters.exclude[name]!.join(" | ")}`);
   }
+  if (filters.fuzzy) parts.push("fuzzy");
+  if (filters.projects?.length) parts.push(`project: ${filters.projects.join(", ")}`);
+  if (filters.createdAfter) parts.push(`created >= ${filters.createdAfter}`);
+  if (filters.createdBefore) parts.push(`created < ${filters.createdBefore}`);
+  if (filters.updatedSince) parts.push(`updated >= ${filters.updatedSince}`);
+  if (filters.resolvedBetween) parts.push(`resolved ${filters.resolvedBetween.join("..")}`);
+  if (filters.sort) parts.push(`sort: ${filters.sort}${filters.order ? ` ${filters.order}` : ""}`);
+  if (filters.offset) parts.push(`offset: ${filters.offset}`);
+  return parts.join(", ");
+}
+
+/** ORDER BY for --sort/--order; rank for text queries, else most recently updated. Key breaks ties */
+function orderSql(filters: SearchFilters, useFts: boolean): string {
+  const field = filters.sort || (useFts ? "rank" : "updated");
+  const { sql, order } = SORTS[field];
+  const direction = (filters.order || order).toUpperCase();
+  const terms = field === "key"
+    ? sql.map(term => `${term} ${direction}`)
+    : [`${sql[0]} IS NULL`, `${sql[0]} ${direction}`, "i.key"];
+  return `ORDER BY ${terms.join(", ")}`;
+}
+
+async function search(filters: SearchFilters, limit: number, json: boolean): Promise<void> {
+  if (filters.mode) return semanticSearch(filters, limit, json);
+  const db = getDb();
   
-  // Work group filter
-  if (filters.workGroup) {
-    conditions.push(`json_extract(i.data, '$.work_group') LIKE $wg`);
-    params.$wg = `%${filters.workGroup}%`;
+  const params: Record<string, any> = { $limit: limit, $offset: filters.offset || 0 };
+  const useFts = !!filters.query;
+  if (filters.sort === "rank" && !useFts) {
+    console.error("--sort rank needs a text query (fts)");
+    db.close();
+    process.exit(1);
   }
+  if (useFts) params.$query = ftsQuery(filters, json);
+  const { conditions, tombstoneColumn, tombstoneJoin } = filterSql(db, filters, params);
+  
+  // The full match set, shared by the result rows and the facet counts
+  const where = useFts ? ["issues_fts MATCH $query", ...conditions] : conditions;
+  const from = `
+    FROM ${useFts ? "issues_fts fts JOIN issues i ON i.rowid = fts.rowid" : "issues i"}
+    ${tombstoneJoin}
+    ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+  `;
+  const columns = useFts ? `i.data, ${tombstoneColumn}, ${SNIPPET_COLUMNS_SQL}` : `i.data, ${tombstoneColumn}`;
+  const sql = `SELECT ${columns} ${from} ${orderSql(filters, useFts)} LIMIT $limit OFFSET $offset`;
+  
+  const rows = (db.query(sql).all(params) as any[]).map(r => (
+    useFts ? { data: r.data, tombstone: r.tombstone, match: matchInfo(r) } : r
+  ));
+  const facets = filters.facets ? countFacets(db, from, params) : null;
   
-  // Change impact filter
-  if (filters.impact) {
-    conditions.push(`json_extract(i.data, '$.change_impact') = $impact`);
-    params.$impact = filters.impact;
+  if (json) {
+    const results = rows.map(r => ({
+      ...parseIssue(r),
+      ...(r.tombstone ? { tombstone: r.tombstone } : {}),
+      ...(r.match ? { match: r.match } : {}),
+    }));
+    console.log(JSON.stringify(facets ? { results, ...facets } : results, null, 2));
+  } else {
+    console.log(`Search: ${describeFilters(filters)}`);
+    formatResults(rows, filters.offset);
+    if (facets) formatFacets(facets);
   }
   
-  let sql: string;
-  if (useFts) {
-    sql = `
-      SELECT i.data
-      FROM issues_fts fts
-      JOIN issues i ON i.rowid = fts.rowid
-      WHERE issues_fts MATCH $query
-    `;
-    if (conditions.length > 0) {
-      sql += ` AND ${conditions.join(" AND ")}`;
-    }
-    sql += ` ORDER BY fts.rank LIMIT $limit`;
+  db.close();
+}
+
+/**
+ * --semantic: issues ranked by embedding similarity to the query text.
+ * --hybrid: that ranking fused with the FTS ranking (reciprocal-rank fusion),
+ * so issues that match the words and the gist come first. Filters apply to both.
+ */
+async function semanticSearch(filters: SearchFilters, limit: number, json: boolean): Promise<void> {
+  if (!filters.query) usageError(`--${filters.mode} needs a text query (fts)`);
+  if (filters.sort && filters.sort !== "rank") usageError(`--sort ${filters.sort} cannot be combined with --${filters.mode}`);
+  if (filters.facets) usageError(`--facets counts a full-text match set, so it cannot be combined with --${filters.mode}`);
+  const provider = getProvider(filters.provider);
+  const db = getDb();
+  if (!hasEmbeddings(db, provider)) {
+    console.error(`This database has no ${provider.name} embeddings. Run: bun run jira:embed`);
+    db.close();
+    process.exit(1);
+  }
+  
+  const offset = filters.offset || 0;
+  const candidates = Math.max(SEMANTIC_CANDIDATES, offset + limit);
+  const params: Record<string, any> = { $candidates: candidates };
+  const hybrid = filters.mode === "hybrid";
+  if (hybrid) params.$query = ftsQuery(filters, json);
+  const { conditions, tombstoneColumn, tombstoneJoin } = filterSql(db, filters, params);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  
+  // Filters (including hidden tombstones) narrow the vector scan to the issues they allow
+  const { $query, $candidates, ...filterParams } = params;
+  const allowed = conditions.length > 0
+    ? new Set((db.query(`SELECT i.key FROM issues i ${tombstoneJoin} ${where}`).all(filterParams) as any[]).map(r => r.key))
+    : undefined;
+  const vectorHits = await vectorSearch(db, provider, filters.query!, candidates, allowed);
+  const similarity = new Map(vectorHits.map(hit => [hit.id, hit.similarity]));
+  
+  let ranked: { id: string; score: number }[];
+  const ftsRank = new Map<string, number>();
+  if (hybrid) {
+    const ftsKeys = (db.query(`
+      SELECT i.key FROM issues_fts fts JOIN issues i ON i.rowid = fts.rowid ${tombstoneJoin}
+      WHERE ${["issues_fts MATCH $query", ...conditions].join(" AND ")}
+      ORDER BY fts.rank LIMIT $candidates
+    `).all(params) as any[]).map(r => r.key as string);
+    ftsKeys.forEach((key, n) => ftsRank.set(key, n + 1));
+    ranked = reciprocalRankFusion([ftsKeys, vectorHits.map(hit => hit.id)]);
   } else {
-    sql = `SELECT data FROM issues i`;
-    if (conditions.length > 0) {
-      sql += ` WHERE ${conditions.join(" AND ")}`;
-    }
-    sql += ` ORDER BY json_extract(i.data, '$.updated_at') DESC LIMIT $limit`;
+    ranked = vectorHits.map(hit => ({ id: hit.id, score: hit.similarity }));
   }
+  const page = ranked.slice(offset, offset + limit);
+  const $keys = JSON.stringify(page.map(r => r.id));
   
-  const rows = db.query(sql).all(params);
+  const data = new Map((db.query(`
+    SELECT i.key, i.data, ${tombstoneColumn} FROM issues i ${tombstoneJoin}
+    WHERE i.key IN (SELECT value FROM json_each($keys))
+  `).all({ $keys }) as any[]).map(r => [r.key, r]));
+  const matches = new Map(hybrid ? (db.query(`
+    SELECT i.key, ${SNIPPET_COLUMNS_SQL} FROM issues_fts fts JOIN issues i ON i.rowid = fts.rowid
+    WHERE issues_fts MATCH $query AND i.key IN (SELECT value FROM json_each($keys))
+  `).all({ $query: params.$query, $keys }) as any[]).map(r => [r.key, matchInfo(r)]) : []);
+  db.close();
+  
+  const rows = page.filter(r => data.has(r.id)).map(r => ({
+    data: data.get(r.id).data,
+    tombstone: data.get(r.id).tombstone,
+    match: matches.get(r.id),
+    semantic: {
+      // Issues only the FTS ranking found were not scored against the query vector
+      similarity: similarity.has(r.id) ? Math.round(similarity.get(r.id)! * 1000) / 1000 : null,
+      ...(hybrid ? { fts_rank: ftsRank.get(r.id) ?? null, rrf: Math.round(r.score * 10000) / 10000 } : {}),
+    },
+  }));
   
   if (json) {
-    console.log(JSON.stringify(rows.map(parseIssue), null, 2));
+    console.log(JSON.stringify(rows.map(r => ({
+      ...parseIssue(r),
+      ...(r.tombstone ? { tombstone: r.tombstone } : {}),
+      ...(r.match ? { match: r.match } : {}),
+      semantic: r.semantic,
+    })), null, 2));
   } else {
-    // Build description of search
-    const parts: string[] = [];
-    if (filters.query) parts.push(`text: "${filters.query}"`);
-    if (filters.ballot) parts.push(`ballot: ${filters.ballot}`);
-    if (filters.status) parts.push(`status: ${filters.status}`);
-    if (filters.version) parts.push(`version: ${filters.version}`);
-    if (filters.resource) parts.push(`resource: ${filters.resource}`);
-    if (filters.workGroup) parts.push(`workgroup: ${filters.workGroup}`);
-    if (filters.impact) parts.push(`impact: ${filters.impact}`);
-    console.log(`Search: ${parts.join(", ")}`);
-    formatResults(rows);
+    console.log(`Search (${filters.mode}, ${provider.name}): ${describeFilters(filters)}`);
+    formatResults(rows, offset);
+  }
+}
+
+interface FacetCounts {
+  total: number;                                                  // issues in the full match set
+  facets: Record<string, { value: string; count: number }[]>;     // per FACETS name, largest first
+}
+
+/** Count the whole match set (not just the returned rows) per value of each facet field */
+function countFacets(db: Database, from: string, params: Record<string, any>): FacetCounts {
+  const { $limit, $offset, ...matchParams } = params;
+  const matches = `WITH matches AS (SELECT i.key, i.data ${from})`;
+  const total = (db.query(`${matches} SELECT COUNT(*) AS cnt FROM matches`).get(matchParams) as any).cnt;
+
+  const facets: FacetCounts["facets"] = {};
+  for (const [name, path] of FACETS) {
+    // json_each yields each element of list fields and the value itself for single-valued ones
+    facets[name] = db.query(`
+      ${matches}
+      SELECT COALESCE(v.value, '(none)') AS value, COUNT(DISTINCT m.key) AS count
+      FROM matches m
+      LEFT JOIN json_each(m.data, '${path}') v
+      GROUP BY 1
+      ORDER BY count DESC, value
+    `).all(matchParams) as any[];
+  }
+  return { total, facets };
+}
+
+function formatFacets({ total, facets }: FacetCounts): void {
+  console.log(`\n=== Facets (all ${total} matching issues) ===`);
+  for (const [name, values] of Object.entries(facets)) {
+    console.log(`\n${name}:`);
+    for (const { value, count } of values.slice(0, FACET_TEXT_VALUES)) {
+      console.log(`  ${String(count).padStart(6)}  ${value}`);
+    }
+    if (values.length > FACET_TEXT_VALUES) {
+      console.log(`          ... ${values.length - FACET_TEXT_VALUES} more (see --json)`);
+    }
+  }
+}
+
+/** Comment-level hits: which comment of which issue matched, with a snippet */
+function searchComments(filters: SearchFilters, limit: number, json: boolean): void {
+  const db = getDb();
+  if (!hasTable(db, "issue_comments")) {
+    console.error("This database has no comment index. Run: bun run jira:reindex");
+    db.close();
+    process.exit(1);
   }
   
+  const params: Record<string, any> = { $limit: limit, $offset: filters.offset || 0, $query: ftsQuery(filters, json) };
+  const { conditions, tombstoneJoin } = filterSql(db, filters, params);
+  
+  const rows = db.query(`
+    SELECT c.issue_key AS key, c.position AS comment, c.author, c.created_at,
+           json_extract(i.data, '$.summary') AS summary,
+           json_extract(i.data, '$.status') AS status,
+           snippet(comments_fts, 1, '**', '**', '...', 24) AS snippet
+    FROM comments_fts fts
+    JOIN issue_comments c ON c.id = fts.rowid
+    JOIN issues i ON i.key = c.issue_key
+    ${tombstoneJoin}
+    WHERE comments_fts MATCH $query
+    ${conditions.length > 0 ? `AND ${conditions.join(" AND ")}` : ""}
+    ORDER BY fts.rank, c.id LIMIT $limit OFFSET $offset
+  `).all(params) as any[];
   db.close();
+  
+  if (json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  
+  console.log(`Comment search: ${describeFilters(filters)}`);
+  if (rows.length === 0) {
+    console.log("No results found.");
+    return;
+  }
+  for (const row of rows) {
+    console.log(`\n${row.key} comment ${row.comment} [${row.status}] - ${row.author || "Unknown"}, ${row.created_at || "undated"}`);
+    console.log(`  ${(row.summary || "").slice(0, 80)}${row.summary?.length > 80 ? "..." : ""}`);
+    console.log(`  > ${row.snippet.replace(/\s+/g, " ").trim()}`);
+  }
+  console.log(`\n--- ${rows.length} comment(s) - use 'snapshot <key> --comment N' for the full text ---`);
+}
+
+function searchBallot(ballot: string, filters: Partial<SearchFilters>, limit: number, json: boolean): Promise<void> {
+  return search({ ...filters, ballot: [ballot, ...(filters.ballot || [])] }, limit, json);
+}
+
+function searchResource(resource: string, filters: Partial<SearchFilters>, limit: number, json: boolean): Promise<void> {
+  return search({ ...filters, resource: [resource, ...(filters.resource || [])] }, limit, json);
 }
 
-function fts(query: string, limit: number, json: boolean): void {
-  search({ query }, limit, json);
+function searchVersion(version: string, filters: Partial<SearchFilters>, limit: number, json: boolean): Promise<void> {
+  return search({ ...filters, version: [version, ...(filters.version || [])] }, limit, json);
 }
 
-function searchBallot(ballotKey: string, filters: Partial<SearchFilters>, limit: number, json: boolean): void {
-  search({ ...filters, ballot: ballotKey }, limit, json);
+function searchBreaking(version: string | undefined, filters: Partial<SearchFilters>, limit: number, json: boolean): Promise<void> {
+  // Repeated values widen a filter, so --impact would let non-breaking changes in
+  if (filters.impact) usageError("breaking always filters on impact Non-compatible; drop --impact, or use --impact with another command");
+  const versions = version ? [version, ...(filters.version || [])] : filters.version;
+  return search({ ...filters, impact: ["Non-compatible"], version: versions }, limit, json);
 }
 
-function searchResource(resource: string, filters: Partial<SearchFilters>, limit: number, json: boolean): void {
-  search({ ...filters, resource }, limit, json);
+function searchStatus(status: string, filters: Partial<SearchFilters>, limit: number, json: boolean): Promise<void> {
+  return search({ ...filters, status: [status, ...(filters.status || [])] }, limit, json);
 }
 
-function searchVersion(version: string, filters: Partial<SearchFilters>, limit: number, json: boolean): void {
-  search({ ...filters, version }, limit, json);
+/** Load status/resolution transitions for an issue (empty for databases without changelogs) */
+function getHistory(db: Database, key: string): any[] {
+  if (!hasTable(db, "issue_history")) return [];
+  return db.query(`
+    SELECT changed_at, author, author_username, field, from_value, to_value
+    FROM issue_history WHERE key = $key ORDER BY changed_at, rowid
+  `).all({ $key: key }) as any[];
 }
 
-function searchBreaking(version: string | undefined, limit: number, json: boolean): void {
-  search({ impact: "Non-compatible", version }, limit, json);
+/** Downloaded attachments of an issue, keyed by Jira attachment id */
+function getAttachments(db: Database, key: string): Map<string, any> {
+  if (!hasTable(db, "attachments")) return new Map();
+  const rows = db.query(`
+    SELECT id, sha256, text, status, error FROM attachments WHERE issue_key = $key
+  `).all({ $key: key }) as any[];
+  return new Map(rows.map(r => [r.id, r]));
 }
 
-function searchStatus(status: string, filters: Partial<SearchFilters>, limit: number, json: boolean): void {
-  search({ ...filters, status }, limit, json);
+function attachmentExcerpt(filename: string, text: string): string[] {
+  const lines = text.split("\n");
+  const excerpt = lines.slice(0, EXCERPT_LINES).join("\n").slice(0, EXCERPT_CHARS);
+  const truncated = excerpt.length < text.length;
+  const fence = text.includes("```") ? "~~~" : "```";
+  const out = [`  ${fence}${extname(filename).slice(1).toLowerCase()}`];
+  for (const line of excerpt.split("\n")) out.push(`  ${line}`);
+  out.push(`  ${fence}`);
+  if (truncated) out.push(`  *(excerpt - ${lines.length} lines, ${text.length} chars in full)*`);
+  return out;
 }
 
 /** Render issue as markdown */
-function renderMarkdown(issue: any): string {
+function renderMarkdown(issue: any, history: any[] = [], stored: Map<string, any> = new Map()): string {
   const lines: string[] = [];
+  // Linked issues live on the same server as this one
+  const browse = `${issue.url ? new URL(issue.url).origin : "https://jira.hl7.org"}/browse`;
   
   lines.push(`# ${issue.key}: ${issue.summary}\n`);
   lines.push(`**URL:** ${issue.url}\n`);
@@ -267,7 +771,7 @@ function renderMarkdown(issue: any): string {
     lines.push(`\n## Issue Links\n`);
     for (const link of issue.issue_links) {
       const status = link.target_status ? ` [${link.target_status}]` : "";
-      lines.push(`- **${link.relation}** → [${link.target_key}](https://jira.hl7.org/browse/${link.target_key})${status}`);
+      lines.push(`- **${link.relation}** → [${link.target_key}](${browse}/${link.target_key})${status}`);
       if (link.target_summary) {
         lines.push(`  - ${link.target_summary}`);
       }
@@ -279,7 +783,7 @@ function renderMarkdown(issue: any): string {
     lines.push(`\n## Related Issues\n`);
     for (const rel of issue.related_issues) {
       const status = rel.status ? ` [${rel.status}]` : "";
-      lines.push(`- [${rel.key}](https://jira.hl7.org/browse/${rel.key})${status}: ${rel.summary || ""}`);  
+      lines.push(`- [${rel.key}](${browse}/${rel.key})${status}: ${rel.summary || ""}`);  
     }
   }
   
@@ -287,17 +791,28 @@ function renderMarkdown(issue: any): string {
   if (issue.duplicate_of) {
     lines.push(`\n## Duplicate Of\n`);
     const dup = issue.duplicate_of;
-    lines.push(`[${dup.key}](https://jira.hl7.org/browse/${dup.key}): ${dup.summary || ""}`);
+    lines.push(`[${dup.key}](${browse}/${dup.key}): ${dup.summary || ""}`);
+  }
+  
+  // Transition timeline
+  if (history.length > 0) {
+    lines.push(`\n## Status History\n`);
+    lines.push(`| Date | Field | From | To | By |`);
+    lines.push(`|------|-------|------|----|----|`);
+    for (const h of history) {
+      const by = h.author_username ? `${h.author} (${h.author_username})` : (h.author || "Unknown");
+      lines.push(`| ${h.changed_at} | ${h.field} | ${h.from_value || "-"} | ${h.to_value || "-"} | ${by} |`);
+    }
   }
   
   // Description
   lines.push(`\n## Description\n`);
-  lines.push(issue.description || "*No description provided*");
+  lines.push(wikiToMarkdown(issue.description, { headingOffset: 2 }) || "*No description provided*");
   
   // Resolution Description
   if (issue.resolution_description) {
     lines.push(`\n## Resolution\n`);
-    lines.push(issue.resolution_description);
+    lines.push(wikiToMarkdown(issue.resolution_description, { headingOffset: 2 }));
   }
   
   // Attachments
@@ -305,24 +820,52 @@ function renderMarkdown(issue: any): string {
     lines.push(`\n## Attachments (${issue.attachments.length})\n`);
     for (const att of issue.attachments) {
       lines.push(`- [${att.filename}](${att.url}) (${att.size} bytes)`);
+      const local = att.id ? stored.get(String(att.id)) : null;
+      if (!local) continue;
+      if (local.status !== "stored") {
+        lines.push(`  - Not downloaded (${local.status}: ${local.error || "unknown error"})`);
+        continue;
+      }
+      const path = join(ATTACHMENT_DIR, local.sha256.slice(0, 2), local.sha256);
+      if (existsSync(path)) lines.push(`  - Local copy: ${path}`);
+      if (local.text) lines.push(...attachmentExcerpt(att.filename, local.text));
     }
   }
   
   // Comments
   if (issue.comments?.length > 0) {
     lines.push(`\n## Comments (${issue.comments.length})\n`);
-    for (const c of issue.comments) {
-      const author = c.author?.name || c.author || "Unknown";
-      lines.push(`### [${c.created_at}] ${author}\n`);
-      lines.push(c.body || "*empty*");
-      lines.push("");
-    }
+    issue.comments.forEach((c: any, n: number) => lines.push(...renderComment(c, n + 1)));
   }
   
   return lines.join("\n");
 }
 
-function getIssue(key: string, json: boolean, snapshot: boolean): void {
+function renderComment(comment: any, position: number): string[] {
+  const author = comment.author?.name || comment.author || "Unknown";
+  return [
+    `### ${position}. [${comment.created_at}] ${author}\n`,
+    wikiToMarkdown(comment.body, { headingOffset: 3 }) || "*empty*",
+    "",
+  ];
+}
+
+/** Render one comment with just enough of the issue to place it */
+function renderCommentMarkdown(issue: any, position: number): string {
+  const count = issue.comments.length;
+  const lines = [
+    `# ${issue.key}: ${issue.summary}\n`,
+    `**URL:** ${issue.url}  `,
+    `**Status:** ${issue.status || "Unknown"} / ${issue.resolution || "Unresolved"}\n`,
+    `## Comment ${position} of ${count}\n`,
+    ...renderComment(issue.comments[position - 1], position),
+  ];
+  const others = [position > 1 ? `--comment ${position - 1}` : "", position < count ? `--comment ${position + 1}` : ""];
+  lines.push(`*Full issue: snapshot ${issue.key}${others.some(Boolean) ? `; neighbours: ${others.filter(Boolean).join(", ")}` : ""}*`);
+  return lines.join("\n");
+}
+
+function getIssue(key: string, json: boolean, snapshot: boolean, comment?: number): void {
   const db = getDb();
   
   const row = db.query(`SELECT data FROM issues WHERE key = $key`).get({ $key: key }) as any;
@@ -334,11 +877,30 @@ function getIssue(key: string, json: boolean, snapshot: boolean): void {
   }
   
   const issue = parseIssue(row);
+  const tombstone = hasTable(db, "issue_tombstones")
+    ? db.query(`SELECT status, moved_to, detected_at FROM issue_tombstones WHERE key = $key`).get({ $key: key }) as any
+    : null;
+  if (tombstone) {
+    const where = tombstone.moved_to ? ` to ${tombstone.moved_to}` : "";
+    console.error(`⚠️  ${key} was ${tombstone.status}${where} upstream (detected ${tombstone.detected_at}); showing the last stored copy.`);
+  }
   
-  if (json) {
+  if (comment !== undefined) {
+    const count = issue.comments?.length || 0;
+    if (!Number.isInteger(comment) || comment < 1 || comment > count) {
+      console.error(`${key} has ${count} comment(s); --comment must be between 1 and ${count}`);
+      db.close();
+      process.exit(1);
+    }
+    if (json) {
+      console.log(JSON.stringify({ key, comment, of: count, ...issue.comments[comment - 1] }, null, 2));
+    } else {
+      console.log(renderCommentMarkdown(issue, comment));
+    }
+  } else if (json) {
     console.log(JSON.stringify(issue, null, 2));
   } else if (snapshot) {
-    console.log(renderMarkdown(issue));
+    console.log(renderMarkdown(issue, getHistory(db, key), getAttachments(db, key)));
   } else {
     // Brief view
     console.log(`\n${"=".repeat(70)}`);
@@ -354,9 +916,10 @@ function getIssue(key: string, json: boolean, snapshot: boolean): void {
     console.log(`Specification: ${spec || "N/A"}`);
     if (ballot) console.log(`Ballot: ${ballot}`);
     
+    const description = wikiToText(issue.description);
     console.log(`\n--- Description (truncated) ---`);
-    console.log((issue.description || "No description").slice(0, 500));
-    if (issue.description?.length > 500) console.log("...");
+    console.log((description || "No description").slice(0, 500));
+    if (description.length > 500) console.log("...");
     
     if (issue.comments?.length > 0) {
       console.log(`\n--- ${issue.comments.length} comment(s) - use 'snapshot' for full content ---`);
@@ -366,14 +929,510 @@ function getIssue(key: string, json: boolean, snapshot: boolean): void {
   db.close();
 }
 
+/** Issue keys from a file: one or more per line, separated by spaces or commas; # starts a comment */
+function readKeyFile(path: string): string[] {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error: any) {
+    usageError(`Cannot read ${path}: ${error.message}`);
+  }
+  return text
+    .split("\n")
+    .map(line => line.replace(/#.*/, ""))
+    .flatMap(line => line.split(/[\s,]+/))
+    .filter(Boolean);
+}
+
+/**
+ * SELECT over the issues a search would list, in the same order (--sort,
+ * --offset and --limit apply; a limit of -1 means all). `columns` may use
+ * i (issues) and, when present, t (issue_tombstones).
+ */
+function matchSql(db: Database, filters: SearchFilters, columns: (tombstoneColumn: string) => string, limit: number) {
+  const params: Record<string, any> = { $limit: limit, $offset: filters.offset || 0 };
+  const useFts = !!filters.query;
+  if (filters.sort === "rank" && !useFts) usageError("--sort rank needs a text query");
+  if (useFts) params.$query = ftsQuery(filters, false);
+  const { conditions, tombstoneColumn, tombstoneJoin } = filterSql(db, filters, params);
+  const where = useFts ? ["issues_fts MATCH $query", ...conditions] : conditions;
+  const sql = `
+    SELECT ${columns(tombstoneColumn)}
+    FROM ${useFts ? "issues_fts fts JOIN issues i ON i.rowid = fts.rowid" : "issues i"}
+    ${tombstoneJoin}
+    ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+    ${orderSql(filters, useFts)} LIMIT $limit OFFSET $offset
+  `;
+  return { sql, params };
+}
+
+/** Keys of the issues a search would list */
+function matchingKeys(db: Database, filters: SearchFilters, limit: number): string[] {
+  const { sql, params } = matchSql(db, filters, () => "i.key", limit);
+  return (db.query(sql).all(params) as any[]).map(r => r.key);
+}
+
+/**
+ * Snapshot several issues in one run. Without outDir the snapshots are
+ * printed one after another (a JSON array with --json); with it each goes to
+ * <outDir>/<KEY>.md (or .json) next to an index. Keys that are malformed or
+ * not in the database are reported and skipped.
+ */
+function snapshotMany(keys: string[], json: boolean, outDir?: string): void {
+  const db = getDb();
+  const unique = [...new Set(keys.map(k => k.trim().toUpperCase()))];
+  const getRow = db.query(`SELECT data FROM issues WHERE key = $key`);
+  const getTombstone = hasTable(db, "issue_tombstones")
+    ? db.query(`SELECT status, moved_to FROM issue_tombstones WHERE key = $key`)
+    : null;
+  if (outDir) mkdirSync(outDir, { recursive: true });
+  
+  const written: any[] = [];
+  const missing: { key: string; reason: string }[] = [];
+  const printed: any[] = [];
+  for (const key of unique) {
+    if (!ISSUE_KEY.test(key)) {
+      console.error(`Skipping "${key}": not an issue key`);
+      missing.push({ key, reason: "not an issue key" });
+      continue;
+    }
+    const row = getRow.get({ $key: key }) as any;
+    if (!row) {
+      console.error(`Issue ${key} not found`);
+      missing.push({ key, reason: "not in database" });
+      continue;
+    }
+    const issue = parseIssue(row);
+    const tombstone = getTombstone?.get({ $key: key }) as any;
+    if (tombstone) {
+      console.error(`⚠️  ${key} was ${tombstone.status}${tombstone.moved_to ? ` to ${tombstone.moved_to}` : ""} upstream; using the last stored copy.`);
+    }
+    
+    if (!outDir) {
+      printed.push(json ? issue : renderMarkdown(issue, getHistory(db, key), getAttachments(db, key)));
+      continue;
+    }
+    const file = `${key}.${json ? "json" : "md"}`;
+    writeFileSync(join(outDir, file), json
+      ? JSON.stringify(issue, null, 2)
+      : renderMarkdown(issue, getHistory(db, key), getAttachments(db, key)));
+    written.push({
+      key,
+      summary: issue.summary,
+      status: issue.status,
+      resolution: issue.resolution || null,
+      file,
+      ...(tombstone ? { tombstone: tombstone.status } : {}),
+    });
+  }
+  db.close();
+  
+  if (!outDir) {
+    console.log(json ? JSON.stringify(printed, null, 2) : printed.join("\n\n---\n\n"));
+  } else if (json) {
+    writeFileSync(join(outDir, "index.json"), JSON.stringify({ issues: written, missing }, null, 2));
+  } else {
+    const cell = (text: string | null) => (text || "").replace(/\|/g, "\\|");
+    const lines = [
+      `# Issue Snapshots\n`,
+      `| Key | Summary | Status | Resolution |`,
+      `|-----|---------|--------|------------|`,
+      ...written.map(w => `| [${w.key}](${w.file}) | ${cell(w.summary)} | ${cell(w.status)}${w.tombstone ? ` (${w.tombstone} upstream)` : ""} | ${cell(w.resolution) || "Unresolved"} |`),
+    ];
+    if (missing.length > 0) {
+      lines.push(`\n## Not Found\n`, ...missing.map(m => `- ${m.key} (${m.reason})`));
+    }
+    writeFileSync(join(outDir, "index.md"), lines.join("\n") + "\n");
+  }
+  
+  const found = outDir ? written.length : printed.length;
+  const summary = `${found} of ${unique.length} issue(s) snapshotted${outDir ? ` to ${outDir} (index.${json ? "json" : "md"})` : ""}` +
+    (missing.length > 0 ? `; not found: ${missing.map(m => m.key).join(", ")}` : "");
+  // Keep stdout to the snapshots themselves when they are printed
+  (outDir ? console.log : console.error)(summary);
+}
+
+/** A column value as text: people by name, linked issues by key, lists joined */
+function flattenValue(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(flattenValue).filter(Boolean).join(EXPORT_SEPARATOR);
+  if (typeof value === "object") return value.name ?? value.key ?? JSON.stringify(value);
+  return String(value);
+}
+
+/** A column value for JSON Lines: lists stay arrays (of flattened items) */
+function jsonValue(value: any): any {
+  if (value === null || value === undefined || value === "") return null;
+  if (Array.isArray(value)) return value.map(flattenValue).filter(Boolean);
+  return typeof value === "object" ? flattenValue(value) : value;
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write every matching issue (no --limit: all of them) as one line each,
+ * row by row from the database, so result sets of any size stream out.
+ */
+function exportIssues(filters: SearchFilters, limit: number, format: ExportFormat, columns: string[]): void {
+  const db = getDb();
+  const { sql, params } = matchSql(db, filters, tombstoneColumn => `i.data, ${tombstoneColumn}`, limit);
+  
+  const line = (cells: string[]): string => {
+    switch (format) {
+      case "csv": return cells.map(csvCell).join(",");
+      case "tsv": return cells.map(c => c.replace(/[\t\r\n]+/g, " ")).join("\t");
+      default: return `| ${cells.map(c => c.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>")).join(" | ")} |`;
+    }
+  };
+  if (format !== "jsonl") console.log(line(columns));
+  if (format === "md-table") console.log(line(columns.map(() => "---")));
+  
+  let count = 0;
+  for (const row of db.query(sql).iterate(params) as Iterable<any>) {
+    const issue = parseIssue(row);
+    const values = columns.map(column => EXPORT_COLUMNS[column](issue, row.tombstone));
+    console.log(format === "jsonl"
+      ? JSON.stringify(Object.fromEntries(columns.map((column, n) => [column, jsonValue(values[n])])))
+      : line(values.map(flattenValue)));
+    count++;
+  }
+  db.close();
+  console.error(`${count} issue(s) exported`);
+}
+
+function showHistory(key: string, json: boolean): void {
+  const db = getDb();
+  
+  const row = db.query(`SELECT data FROM issues WHERE key = $key`).get({ $key: key }) as any;
+  if (!row) {
+    console.error(`Issue ${key} not found`);
+    db.close();
+    return;
+  }
+  
+  const issue = parseIssue(row);
+  const history = getHistory(db, key);
+  
+  if (json) {
+    console.log(JSON.stringify(history, null, 2));
+  } else {
+    console.log(`${issue.key}: ${issue.summary}`);
+    console.log(`  ${issue.created_at}  created by ${issue.reporter?.name || "Unknown"}`);
+    for (const h of history) {
+      const by = h.author_username ? `${h.author} (${h.author_username})` : (h.author || "Unknown");
+      console.log(`  ${h.changed_at}  ${h.field}: ${h.from_value || "-"} → ${h.to_value || "-"}  by ${by}`);
+    }
+    if (history.length === 0) {
+      console.log(`  (no transitions recorded - the database may predate changelog downloads)`);
+    }
+    console.log(`  Current: ${issue.status} / ${issue.resolution || "Unresolved"}`);
+  }
+  
+  db.close();
+}
+
+/**
+ * Issues a person reported, is assigned or commented on (by display name or
+ * username, narrowed by the usual filters), with their activity per work group
+ * and status. Every issue counts once per role; `issues` counts each issue once.
+ */
+function showPerson(name: string, filters: SearchFilters, limit: number, json: boolean): void {
+  const db = getDb();
+  const params: Record<string, any> = { $person: filters.fuzzy ? `%${name}%` : name };
+  const { conditions, tombstoneColumn, tombstoneJoin } = filterSql(db, filters, params);
+  if (!hasTable(db, "issue_values")) {
+    console.error("This database has no issue_values table. Run: bun run jira:reindex");
+    db.close();
+    process.exit(1);
+  }
+  
+  const rows = db.query(`
+    SELECT i.data, ${tombstoneColumn}, GROUP_CONCAT(DISTINCT r.field) AS roles
+    FROM issues i
+    JOIN issue_values r ON r.key = i.key
+      AND r.field IN (${PERSON_ROLES.map(role => `'${role}'`).join(", ")})
+      AND r.value ${filters.fuzzy ? "LIKE" : "="} $person
+    ${tombstoneJoin}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    GROUP BY i.key
+    ORDER BY json_extract(i.data, '$.updated_at') DESC, i.key
+  `).all(params) as any[];
+  db.close();
+  
+  // Tally each role, and distinct issues, overall and per work group and status
+  type Tally = Record<PersonRole | "issues", number>;
+  const emptyTally = (): Tally => ({ reporter: 0, assignee: 0, commenter: 0, issues: 0 });
+  const totals = emptyTally();
+  const byWorkGroup = new Map<string, Tally>();
+  const byStatus = new Map<string, Tally>();
+  const tallyFor = (map: Map<string, Tally>, value: string): Tally => {
+    if (!map.has(value)) map.set(value, emptyTally());
+    return map.get(value)!;
+  };
+  const ranked = (map: Map<string, Tally>) => [...map].sort((a, b) => b[1].issues - a[1].issues || a[0].localeCompare(b[0]));
+  const issues = rows.map(row => {
+    const issue = parseIssue(row);
+    const roles = (row.roles as string).split(",") as PersonRole[];
+    const workGroups: string[] = [issue.work_group ?? "(none)"].flat();
+    const tallies = [totals, ...workGroups.map(wg => tallyFor(byWorkGroup, wg)), tallyFor(byStatus, issue.status || "(none)")];
+    for (const tally of tallies) {
+      tally.issues++;
+      for (const role of roles) tally[role]++;
+    }
+    return {
+      key: issue.key,
+      summary: issue.summary,
+      status: issue.status,
+      work_group: issue.work_group ?? null,
+      updated_at: issue.updated_at,
+      roles: PERSON_ROLES.filter(role => roles.includes(role)),
+      ...(row.tombstone ? { tombstone: row.tombstone } : {}),
+    };
+  });
+  
+  if (json) {
+    console.log(JSON.stringify({
+      person: name,
+      totals,
+      by_work_group: ranked(byWorkGroup).map(([work_group, tally]) => ({ work_group, ...tally })),
+      by_status: ranked(byStatus).map(([status, tally]) => ({ status, ...tally })),
+      issues: issues.slice(0, limit),
+    }, null, 2));
+    return;
+  }
+  
+  const described = describeFilters(filters);
+  console.log(`Person: ${name}${described ? ` (${described})` : ""}`);
+  if (issues.length === 0) {
+    console.log(`No issues found. Names match a display name or username exactly; try --fuzzy.`);
+    return;
+  }
+  const line = (label: string, t: Tally) =>
+    `  ${label.padEnd(32)} ${String(t.issues).padStart(6)} ${String(t.reporter).padStart(9)} ${String(t.assignee).padStart(9)} ${String(t.commenter).padStart(10)}`;
+  const header = `  ${"".padEnd(32)} ${"issues".padStart(6)} ${"reported".padStart(9)} ${"assigned".padStart(9)} ${"commented".padStart(10)}`;
+  
+  console.log(`\n${header}`);
+  console.log(line("Total", totals));
+  console.log(`\nBy work group:`);
+  for (const [wg, tally] of ranked(byWorkGroup)) console.log(line(wg, tally));
+  console.log(`\nBy status:`);
+  for (const [status, tally] of ranked(byStatus)) console.log(line(status, tally));
+  
+  console.log(`\nMost recently updated:`);
+  for (const issue of issues.slice(0, limit)) {
+    const tombstone = issue.tombstone ? ` (${issue.tombstone} upstream)` : "";
+    console.log(`  ${issue.key} [${issue.status}]${tombstone} ${issue.roles.join(", ")}`);
+    console.log(`    ${(issue.summary || "").slice(0, 80)}${issue.summary?.length > 80 ? "..." : ""}`);
+  }
+  if (issues.length > limit) {
+    console.log(`\n--- ${limit} of ${issues.length} issues (use --limit for more) ---`);
+  }
+}
+
+/** Issues most like `key` by summary, description and artifacts - likely duplicates first */
+function showSimilar(key: string, filters: SearchFilters, limit: number, json: boolean): void {
+  const db = getDb();
+  const source = db.query(`SELECT data FROM issues WHERE key = $key`).get({ $key: key }) as any;
+  if (!source) {
+    console.error(`Issue ${key} not found`);
+    db.close();
+    return;
+  }
+  const issue = parseIssue(source);
+  const counts = issueTermCounts(issue);
+  const vector = tfidfVector(counts, inverseDocumentFrequencies(db, counts.keys()));
+  const terms = topTerms(vector, SIMILAR_QUERY_TERMS);
+  
+  let results: any[] = [];
+  if (terms.length > 0) {
+    const params: Record<string, any> = {
+      $key: key,
+      $query: `{summary description related_artifacts} : (${terms.map(t => `"${t}"`).join(" OR ")})`,
+      $candidates: SIMILAR_CANDIDATES,
+    };
+    const { conditions, tombstoneColumn, tombstoneJoin } = filterSql(db, filters, params);
+    const candidates = (db.query(`
+      SELECT i.data, ${tombstoneColumn}
+      FROM issues_fts fts
+      JOIN issues i ON i.rowid = fts.rowid
+      ${tombstoneJoin}
+      WHERE ${["issues_fts MATCH $query", "i.key != $key", ...conditions].join(" AND ")}
+      ORDER BY fts.rank LIMIT $candidates
+    `).all(params) as any[]).map(row => ({ row, issue: parseIssue(row), counts: issueTermCounts(parseIssue(row)) }));
+    
+    const idf = inverseDocumentFrequencies(db, candidates.flatMap(c => [...c.counts.keys()]));
+    results = candidates
+      .map(({ row, issue: other, counts }) => {
+        const otherVector = tfidfVector(counts, idf);
+        return {
+          key: other.key,
+          summary: other.summary,
+          status: other.status,
+          score: Math.round(cosine(vector, otherVector) * 1000) / 1000,
+          shared: sharedTerms(vector, otherVector),
+          ...(row.tombstone ? { tombstone: row.tombstone } : {}),
+        };
+      })
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key, undefined, { numeric: true }))
+      .slice(0, limit);
+  }
+  db.close();
+  
+  if (json) {
+    console.log(JSON.stringify({ key, summary: issue.summary, results }, null, 2));
+    return;
+  }
+  const described = describeFilters(filters);
+  console.log(`Similar to ${key} [${issue.status}]: ${issue.summary}${described ? `\nFilters: ${described}` : ""}`);
+  if (results.length === 0) {
+    console.log("No similar issues found.");
+    return;
+  }
+  for (const r of results) {
+    const tombstone = r.tombstone ? ` (${r.tombstone} upstream)` : "";
+    console.log(`\n${r.score.toFixed(2)}  ${r.key} [${r.status}]${tombstone}`);
+    console.log(`      ${(r.summary || "").slice(0, 80)}${r.summary?.length > 80 ? "..." : ""}`);
+    console.log(`      shared: ${r.shared.join(", ")}`);
+  }
+  console.log(`\n--- ${results.length} result(s); scores are TF-IDF cosine similarity (1.00 = same words) ---`);
+}
+
+/**
+ * Pairs of open (unresolved) issues within a ballot that look alike, most
+ * similar first. Pairs already linked as duplicates or by a Jira link are marked.
+ */
+function showDuplicates(filters: SearchFilters, minScore: number, limit: number, json: boolean): void {
+  const db = getDb();
+  const params: Record<string, any> = {};
+  const { conditions, tombstoneJoin } = filterSql(db, filters, params);
+  const rows = db.query(`
+    SELECT i.data FROM issues i
+    ${tombstoneJoin}
+    WHERE ${["json_extract(i.data, '$.resolution') IS NULL", ...conditions].join(" AND ")}
+    ORDER BY i.key
+  `).all(params) as any[];
+  
+  const issues = rows.map(row => parseIssue(row));
+  const counts = issues.map(issue => issueTermCounts(issue));
+  const idf = inverseDocumentFrequencies(db, counts.flatMap(c => [...c.keys()]));
+  const vectors = counts.map(c => tfidfVector(c, idf));
+  
+  const linked = new Set<string>();
+  if (hasTable(db, "issue_relations")) {
+    const relations = db.query(`
+      SELECT key, target_key FROM issue_relations WHERE key IN (SELECT value FROM json_each($keys))
+    `).all({ $keys: JSON.stringify(issues.map(i => i.key)) }) as any[];
+    for (const r of relations) linked.add([r.key, r.target_key].sort().join(" "));
+  }
+  db.close();
+  
+  const pairs: any[] = [];
+  for (let a = 0; a < issues.length; a++) {
+    for (let b = a + 1; b < issues.length; b++) {
+      const score = cosine(vectors[a], vectors[b]);
+      if (score < minScore) continue;
+      const brief = (issue: any) => ({ key: issue.key, summary: issue.summary, status: issue.status });
+      pairs.push({
+        score: Math.round(score * 1000) / 1000,
+        issues: [brief(issues[a]), brief(issues[b])],
+        shared: sharedTerms(vectors[a], vectors[b]),
+        linked: linked.has([issues[a].key, issues[b].key].sort().join(" ")),
+      });
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+  const shown = pairs.slice(0, limit);
+  
+  if (json) {
+    console.log(JSON.stringify({ issues: issues.length, min_score: minScore, pairs: shown }, null, 2));
+    return;
+  }
+  console.log(`Candidate duplicates among ${issues.length} open issue(s): ${describeFilters(filters)}`);
+  if (shown.length === 0) {
+    console.log(`No pairs scored ${minScore} or more (lower it with --min-score).`);
+    return;
+  }
+  for (const pair of shown) {
+    console.log(`\n${pair.score.toFixed(2)}${pair.linked ? "  (already linked)" : ""}`);
+    for (const issue of pair.issues) {
+      console.log(`  ${issue.key} [${issue.status}] ${(issue.summary || "").slice(0, 70)}${issue.summary?.length > 70 ? "..." : ""}`);
+    }
+    console.log(`  shared: ${pair.shared.join(", ")}`);
+  }
+  console.log(`\n--- ${shown.length} of ${pairs.length} pair(s) scoring ${minScore} or more ---`);
+}
+
+/** The cluster of issues linked to `key`, as Mermaid (default), DOT or JSON */
+function showGraph(key: string, depth: number, format: string, json: boolean): void {
+  if (!json && format !== "mermaid" && format !== "dot") {
+    console.error(`Unknown graph format "${format}" (use mermaid, dot or --json)`);
+    process.exit(1);
+  }
+  const db = getDb();
+  if (!hasTable(db, "issue_relations")) {
+    console.error("This database has no issue_relations table. Run: bun run jira:reindex");
+    db.close();
+    process.exit(1);
+  }
+  const known = db.query(`
+    SELECT 1 FROM issues WHERE key = $key
+    UNION ALL SELECT 1 FROM issue_relations WHERE target_key = $key
+  `).get({ $key: key });
+  if (!known) {
+    console.error(`Issue ${key} not found`);
+    db.close();
+    return;
+  }
+  
+  const graph = buildGraph(db, key, depth);
+  db.close();
+  
+  // Notes go to stderr so the diagram can be piped straight to a file
+  if (graph.truncated) {
+    console.error(`Stopped at ${MAX_GRAPH_NODES} issues; use a smaller --depth for the full picture.`);
+  }
+  if (json) {
+    console.log(JSON.stringify(graph, null, 2));
+  } else {
+    console.log(format === "dot" ? renderDot(graph) : renderMermaid(graph));
+    console.error(`${graph.nodes.length} issue(s), ${graph.edges.length} link(s) within ${depth} hop(s) of ${key}`);
+  }
+}
+
 function showStats(): void {
   const db = getDb();
   
   const total = db.query("SELECT COUNT(*) as cnt FROM issues").get() as any;
   
+  const meta = readMeta(db);
   console.log(`\nDatabase Statistics`);
   console.log(`${"-".repeat(40)}`);
+  console.log(`Data as of: ${dataDate(meta)}`);
+  if (meta.full_download_at && meta.full_download_at !== meta.generated_at) {
+    console.log(`Last full download: ${meta.full_download_at}`);
+  }
   console.log(`Total issues: ${total.cnt}`);
+  if (hasTable(db, "issue_tombstones")) {
+    const gone = db.query(`SELECT status, COUNT(*) as cnt FROM issue_tombstones GROUP BY status`).all() as any[];
+    for (const g of gone) {
+      console.log(`  ${g.status} upstream (hidden from search): ${g.cnt}`);
+    }
+  }
+  
+  // Project breakdown
+  const projects = db.query(`
+    SELECT ${projectSql("i")} as project, COUNT(*) as cnt
+    FROM issues i GROUP BY project ORDER BY cnt DESC
+  `).all() as any[];
+  if (projects.length > 1) {
+    console.log(`\nBy Project:`);
+    for (const p of projects) {
+      console.log(`  ${p.project}: ${p.cnt}`);
+    }
+  }
   
   // Status breakdown
   console.log(`\nBy Status:`);
@@ -417,6 +1476,28 @@ function showStats(): void {
   db.close();
 }
 
+function showMeta(key: string, json: boolean): void {
+  const db = getDb();
+  const meta = readMeta(db);
+  db.close();
+  printMeta(meta, key, json);
+}
+
+// ingest-log <run>: the issues the run last changed
+const INGEST_LOG_VIEW: IngestLogView = {
+  itemsKey: "issues",
+  heading: limit => `Issues last changed by this run (most recently updated ${limit}):`,
+  changedRows: (db, runId, limit) => db.query(`
+    SELECT i.data FROM issues i
+    WHERE i.ingest_run_id = ?
+    ORDER BY json_extract(i.data, '$.updated_at') DESC
+    LIMIT ?
+  `).all(runId, limit) as any[],
+  toJson: parseIssue,
+  detailLines: details => details.jql ? [`JQL: ${details.jql}`] : [],
+  render: rows => formatResults(rows),
+};
+
 function execSql(query: string, json: boolean): void {
   const db = getDb();
   
@@ -434,6 +1515,20 @@ function execSql(query: string, json: boolean): void {
   db.close();
 }
 
+function usageError(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+/** A YYYY-MM-DD date option */
+function parseDate(option: string, value: string): string {
+  const date = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    usageError(`${option} expects a date as YYYY-MM-DD, got "${value}"`);
+  }
+  return date;
+}
+
 function printHelp(): void {
   console.log(`
 FHIR Jira Search CLI
@@ -441,7 +1536,8 @@ FHIR Jira Search CLI
 Usage: bun run jira/search.ts <command> [args] [options]
 
 Commands:
-  fts <query>         Full-text search (supports FTS5 syntax: AND, OR, "phrases")
+  fts <query>         Full-text search (supports FTS5 syntax: AND, OR, "phrases").
+                      With --comments, lists the matching comments instead
   ballot <key>        Find issues linked to a ballot (e.g., BALLOT-89190 or just 89190)
   resource <name>     Find issues for a FHIR resource (e.g., Patient, Observation)
   version <ver>       Find issues for a FHIR version (e.g., R4, R5, R6)
@@ -450,7 +1546,25 @@ Commands:
   get <key>           Brief issue view
   snapshot <key>      Complete issue snapshot - all fields, comments, links.
                       Use after FTS to get full context for analysis.
-  stats               Database statistics
+                      With --comment N, just the Nth comment
+  snapshot <key>...   Snapshot a batch: several keys, --from-file and/or --query;
+                      --out-dir writes <KEY>.md (.json with --json) per issue and an index
+  history <key>       Status/resolution transition timeline (when and by whom)
+  export [query]      All matching issues (filters apply; --limit to cap) as CSV,
+                      for spreadsheets; --format tsv, jsonl or md-table, --columns
+  graph <key>         Issues linked to <key> (issue links, related issues, duplicates,
+                      subtasks) in both directions, --depth hops out (default 2), as a
+                      Mermaid diagram, DOT with --format dot, or --json
+  similar <key>       Issues most like <key> by summary, description and artifacts
+                      (TF-IDF), e.g. to spot duplicates. Filters narrow the candidates
+  duplicates          Candidate duplicate pairs among the open issues of a ballot:
+                      duplicates --ballot <key> [--min-score 0.35]
+  person <name>       Issues someone reported, is assigned or commented on (display name
+                      or username), with their activity by work group and status
+  stats               Database statistics, including the data date
+  meta [key]          Database metadata (generated_at, schema_version, jql, ...)
+  ingest-log [run-id] List download runs (inserted/updated/skipped counts, errors,
+                      status), or show one run and the issues it added or changed
   sql <query>         Execute raw SQL (data column contains JSON)
 
 Filter Options (can combine with any command):
@@ -460,9 +1574,49 @@ Filter Options (can combine with any command):
   --resource <name>   Filter by resource (e.g., --resource Patient)
   --workgroup <wg>    Filter by work group (e.g., --workgroup fhir-i)
   --impact <impact>   Filter by change impact (Non-compatible, Compatible, Non-substantive)
+  --reporter <name>   Filter by reporter (display name or username)
+  --assignee <name>   Filter by assignee
+  --commenter <name>  Filter by anyone who commented
+                      These match whole values, ignoring case (R4 does not match R4B).
+                      Repeat for any of several: --resource Patient --resource Encounter
+  --not-<filter> <v>  Exclude a value, e.g. --not-status Published (repeatable)
+  --fuzzy             Match substrings instead (--resource Patient also finds PatientLink)
+  --project <key>     Filter by Jira project (repeatable, e.g., --project FHIR)
+  --include-deleted   Include issues deleted or moved upstream (hidden by default)
+  --created-after <d>     Created on or after date d (YYYY-MM-DD)
+  --created-before <d>    Created before date d
+  --updated-since <d>     Updated on or after date d
+  --resolved-between <a>..<b>  Resolved between dates a and b, inclusive
+
+Query Options:
+  --no-expand         Search the words as typed, without FHIR synonyms
+                      (by default Conformance also finds CapabilityStatement, R4B finds 4.3, ...)
+  --explain           Show how the query was expanded and what FTS5 ran
+  --semantic          Rank by embedding similarity to the query instead of FTS
+                      (needs bun run jira:embed; finds issues without the exact words)
+  --hybrid            Fuse the FTS and embedding rankings (reciprocal-rank fusion)
+  --provider <name>   Embedding provider for --semantic/--hybrid (default: hashed-ngrams)
+  --facets            Also count the full match set by status, work group,
+                      specification, version and change impact
+                      (with --json: {"results": [...], "total": n, "facets": {...}})
 
 General Options:
+  --comments          fts: return comment-level hits (issue, comment number, author, date, snippet)
+  --comment <n>       snapshot: show only comment n (as numbered in the snapshot)
+  --from-file <file>  snapshot: issue keys from a file (one or more per line, # comments)
+  --query <text>      snapshot: the issues this search finds (filters, --sort and --limit apply)
+  --out-dir <dir>     snapshot: write one file per issue plus index.md / index.json
+  --depth <n>         graph: how many links to follow from the issue (default: 2)
+  --format <fmt>      graph: mermaid (default) or dot
+                      export: csv (default), tsv, jsonl or md-table
+  --columns <list>    export: comma-separated columns (default: key, summary, status,
+                      resolution, work_group, specification, related_artifacts, ...)
+  --min-score <s>     duplicates: lowest similarity to report, 0-1 (default: 0.35)
   --limit <n>         Max results (default: 20)
+  --offset <n>        Skip the first n results, for paging (--limit 50 --offset 50)
+  --sort <field>      rank (text queries, default), created, updated (default otherwise),
+                      resolved or key. Dates sort newest first, key in issue order
+  --order asc|desc    Reverse the --sort direction (e.g. --sort resolved --order asc)
   --json              Output as JSON
   --help              Show this help
 
@@ -479,6 +1633,13 @@ Combined Filter Examples:
   # FTS within a specific work group
   bun run jira/search.ts fts "security" --workgroup fhir-i
 
+  # Issues created since a WGM
+  bun run jira/search.ts status Triaged --created-after 2024-05-18 --sort created
+
+  # Resolved in the first half of 2024, oldest first, second page
+  bun run jira/search.ts resource Patient --resolved-between 2024-01-01..2024-06-30 \
+    --sort resolved --order asc --limit 50 --offset 50
+
 Recommended Workflow:
   1. Search:   bun run jira:search fts "your topic"
   2. Snapshot: bun run jira:search snapshot FHIR-XXXXX
@@ -489,6 +1650,16 @@ Basic Examples:
   bun run jira/search.ts ballot 89190
   bun run jira/search.ts resource Patient --limit 50
   bun run jira/search.ts snapshot FHIR-43499
+  bun run jira/search.ts fts "must support" --comments
+  bun run jira/search.ts fts "Conformance" --explain
+  bun run jira/search.ts fts "slicing" --facets
+  bun run jira/search.ts snapshot FHIR-43499 --comment 12
+  bun run jira/search.ts snapshot --from-file issues.txt --out-dir snapshots/
+  bun run jira/search.ts snapshot --query "slicing" --ballot 89190 --limit 100 --out-dir slicing/
+  bun run jira/search.ts ingest-log
+  bun run jira/search.ts ingest-log 12 --limit 100
+  bun run jira/search.ts export --ballot 89190 --workgroup fhir-i > fhir-i.csv
+  bun run jira/search.ts export "slicing" --format jsonl --columns key,summary,status,work_group
   bun run jira/search.ts sql "SELECT key, json_extract(data, '$.summary') FROM issues LIMIT 5"
 `);
 }
@@ -504,60 +1675,141 @@ async function main() {
   const { values, positionals } = parseArgs({
     args,
     options: {
-      limit: { type: "string", default: "20" },
+      limit: { type: "string" },
       json: { type: "boolean", default: false },
-      ballot: { type: "string" },
-      status: { type: "string" },
-      version: { type: "string" },
-      resource: { type: "string" },
-      workgroup: { type: "string" },
-      impact: { type: "string" },
+      ballot: { type: "string", multiple: true },
+      status: { type: "string", multiple: true },
+      version: { type: "string", multiple: true },
+      resource: { type: "string", multiple: true },
+      workgroup: { type: "string", multiple: true },
+      impact: { type: "string", multiple: true },
+      "not-ballot": { type: "string", multiple: true },
+      "not-status": { type: "string", multiple: true },
+      "not-version": { type: "string", multiple: true },
+      "not-resource": { type: "string", multiple: true },
+      "not-workgroup": { type: "string", multiple: true },
+      "not-impact": { type: "string", multiple: true },
+      reporter: { type: "string", multiple: true },
+      assignee: { type: "string", multiple: true },
+      commenter: { type: "string", multiple: true },
+      "not-reporter": { type: "string", multiple: true },
+      "not-assignee": { type: "string", multiple: true },
+      "not-commenter": { type: "string", multiple: true },
+      fuzzy: { type: "boolean", default: false },
+      depth: { type: "string", default: "2" },
+      "min-score": { type: "string" },
+      semantic: { type: "boolean", default: false },
+      hybrid: { type: "boolean", default: false },
+      provider: { type: "string" },
+      format: { type: "string" },
+      columns: { type: "string" },
+      "from-file": { type: "string" },
+      query: { type: "string" },
+      "out-dir": { type: "string" },
+      project: { type: "string", multiple: true },
+      "include-deleted": { type: "boolean", default: false },
+      comments: { type: "boolean", default: false },
+      comment: { type: "string" },
+      "no-expand": { type: "boolean", default: false },
+      explain: { type: "boolean", default: false },
+      facets: { type: "boolean", default: false },
+      "created-after": { type: "string" },
+      "created-before": { type: "string" },
+      "updated-since": { type: "string" },
+      "resolved-between": { type: "string" },
+      sort: { type: "string" },
+      order: { type: "string" },
+      offset: { type: "string" },
     },
     allowPositionals: true,
   });
 
-  const limit = parseInt(values.limit as string, 10);
+  const limit = parseInt((values.limit as string) ?? "20", 10);
   const json = values.json as boolean;
   const command = positionals[0];
   const arg = positionals.slice(1).join(" ");
   
   // Build filters from options
   const filters: Partial<SearchFilters> = {};
-  if (values.ballot) filters.ballot = values.ballot as string;
-  if (values.status) filters.status = values.status as string;
-  if (values.version) filters.version = values.version as string;
-  if (values.resource) filters.resource = values.resource as string;
-  if (values.workgroup) filters.workGroup = values.workgroup as string;
-  if (values.impact) filters.impact = values.impact as string;
+  const repeated = (option: string): string[] | undefined => {
+    const value = values[option as keyof typeof values];
+    return Array.isArray(value) ? value : undefined;
+  };
+  for (const [name, { option }] of Object.entries(VALUE_FILTERS) as [ValueFilter, { option: string }][]) {
+    const include = repeated(option);
+    const exclude = repeated(`not-${option}`);
+    if (include) filters[name] = include;
+    if (exclude) filters.exclude = { ...filters.exclude, [name]: exclude };
+  }
+  if (values.fuzzy) filters.fuzzy = true;
+  if (values.project) filters.projects = values.project as string[];
+  if (values["include-deleted"]) filters.includeDeleted = true;
+  if (values["no-expand"]) filters.noExpand = true;
+  if (values.explain) filters.explain = true;
+  if (values.facets) filters.facets = true;
+  if (values["created-after"]) filters.createdAfter = parseDate("--created-after", values["created-after"] as string);
+  if (values["created-before"]) filters.createdBefore = parseDate("--created-before", values["created-before"] as string);
+  if (values["updated-since"]) filters.updatedSince = parseDate("--updated-since", values["updated-since"] as string);
+  if (values["resolved-between"]) {
+    const range = (values["resolved-between"] as string).split(/\.\.|,/);
+    if (range.length !== 2) usageError("--resolved-between takes FROM..TO, e.g. 2024-01-01..2024-06-30");
+    filters.resolvedBetween = [parseDate("--resolved-between", range[0]), parseDate("--resolved-between", range[1])];
+  }
+  if (values.sort) {
+    if (!(values.sort as string in SORTS)) usageError(`--sort must be one of: ${Object.keys(SORTS).join(", ")}`);
+    filters.sort = values.sort as SortField;
+  }
+  if (values.order) {
+    if (values.order !== "asc" && values.order !== "desc") usageError("--order must be asc or desc");
+    filters.order = values.order as "asc" | "desc";
+  }
+  if (values.semantic && values.hybrid) usageError("Use either --semantic or --hybrid");
+  if (values.semantic) filters.mode = "semantic";
+  if (values.hybrid) filters.mode = "hybrid";
+  if (values.provider) {
+    if (!providerNames().includes(values.provider as string)) {
+      usageError(`Unknown embedding provider "${values.provider}" (available: ${providerNames().join(", ")})`);
+    }
+    filters.provider = values.provider as string;
+  }
+  if (values.offset) {
+    const offset = Number(values.offset);
+    if (!Number.isInteger(offset) || offset < 0) usageError(`--offset must be a non-negative integer, not "${values.offset}"`);
+    filters.offset = offset;
+  }
 
   switch (command) {
     case "fts":
       if (!arg) { console.error("Usage: fts <query>"); return; }
-      search({ ...filters, query: arg }, limit, json);
+      if (values.comments) {
+        searchComments({ ...filters, query: arg }, limit, json);
+      } else {
+        await search({ ...filters, query: arg }, limit, json);
+      }
       break;
       
     case "ballot":
       if (!arg) { console.error("Usage: ballot <key>"); return; }
-      searchBallot(arg, filters, limit, json);
+      await searchBallot(arg, filters, limit, json);
       break;
       
     case "resource":
       if (!arg) { console.error("Usage: resource <name>"); return; }
-      searchResource(arg, filters, limit, json);
+      await searchResource(arg, filters, limit, json);
       break;
       
     case "version":
       if (!arg) { console.error("Usage: version <ver>"); return; }
-      searchVersion(arg, filters, limit, json);
+      await searchVersion(arg, filters, limit, json);
       break;
       
     case "breaking":
-      searchBreaking(arg || values.version as string, limit, json);
+      await searchBreaking(arg || undefined, filters, limit, json);
       break;
       
     case "status":
       if (!arg) { console.error("Usage: status <status>"); return; }
-      searchStatus(arg, filters, limit, json);
+      await searchStatus(arg, filters, limit, json);
       break;
       
     case "get":
@@ -565,15 +1817,82 @@ async function main() {
       getIssue(arg.toUpperCase(), json, false);
       break;
       
-    case "snapshot":
-      if (!arg) { console.error("Usage: snapshot <key>"); return; }
-      getIssue(arg.toUpperCase(), json, true);
+    case "snapshot": {
+      const keys = positionals.slice(1).flatMap(k => k.split(","));
+      if (values["from-file"]) keys.push(...readKeyFile(values["from-file"] as string));
+      if (values.query !== undefined) {
+        if (filters.mode) usageError(`snapshot --query cannot be combined with --${filters.mode}`);
+        const db = getDb();
+        keys.push(...matchingKeys(db, { ...filters, query: values.query as string || undefined }, limit));
+        db.close();
+      }
+      if (keys.length === 0) {
+        console.error("Usage: snapshot <key> [--comment N] | snapshot <key>... | --from-file <file> | --query <text> [--out-dir <dir>]");
+        return;
+      }
+      const batch = keys.length > 1 || values["from-file"] || values.query !== undefined || values["out-dir"];
+      if (!batch) {
+        getIssue(keys[0].toUpperCase(), json, true, values.comment ? parseInt(values.comment as string, 10) : undefined);
+      } else if (values.comment) {
+        usageError("--comment takes a single issue");
+      } else {
+        snapshotMany(keys, json, values["out-dir"] as string | undefined);
+      }
+      break;
+    }
+      
+    case "similar":
+      if (!arg) { console.error("Usage: similar <key>"); return; }
+      showSimilar(arg.toUpperCase(), filters, limit, json);
+      break;
+      
+    case "duplicates":
+      if (!filters.ballot?.length) { console.error("Usage: duplicates --ballot <key> [--min-score 0.35]"); return; }
+      showDuplicates(filters, values["min-score"] ? parseFloat(values["min-score"] as string) : DEFAULT_DUPLICATE_SCORE, limit, json);
+      break;
+      
+    case "person":
+      if (!arg) { console.error("Usage: person <name or username>"); return; }
+      showPerson(arg, filters, limit, json);
+      break;
+      
+    case "graph":
+      if (!arg) { console.error("Usage: graph <key> [--depth N] [--format mermaid|dot]"); return; }
+      showGraph(arg.toUpperCase(), Math.max(1, parseInt(values.depth as string, 10) || 2), (values.format as string) || "mermaid", json);
+      break;
+      
+    case "export": {
+      const format = (values.format as string || "csv") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) usageError(`--format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+      const columns = values.columns
+        ? (values.columns as string).split(",").map(c => c.trim()).filter(Boolean)
+        : DEFAULT_EXPORT_COLUMNS;
+      const unknown = columns.filter(c => !(c in EXPORT_COLUMNS));
+      if (unknown.length > 0) {
+        usageError(`Unknown column(s): ${unknown.join(", ")}. Available: ${Object.keys(EXPORT_COLUMNS).join(", ")}`);
+      }
+      if (filters.mode) usageError(`export cannot be combined with --${filters.mode}`);
+      exportIssues({ ...filters, query: arg || undefined }, values.limit ? limit : -1, format, columns);
+      break;
+    }
+      
+    case "history":
+      if (!arg) { console.error("Usage: history <key>"); return; }
+      showHistory(arg.toUpperCase(), json);
       break;
       
     case "stats":
       showStats();
       break;
       
+    case "meta":
+      showMeta(arg, json);
+      break;
+
+    case "ingest-log":
+      showIngestLog(getDb(), arg, limit, json, INGEST_LOG_VIEW);
+      break;
+      
     case "sql":
       if (!arg) { console.error("Usage: sql <query>"); return; }
       execSql(arg, json);
@@ -581,7 +1900,7 @@ async function main() {
       
     default:
       // Treat as FTS query
-      search({ ...filters, query: positionals.join(" ") }, limit, json);
+      await search({ ...filters, query: positionals.join(" ") }, limit, json);
   }
 }
 
@@ -0,0 +1,107 @@
+/**
+ * Jira Issue Similarity
+ *
+ * TF-IDF vectors over an issue's summary, description and related artifacts,
+ * for the search CLI's `similar` and `duplicates` commands. Terms are split
+ * the way issues_fts tokenizes (lowercase, diacritics folded, underscores kept)
+ * so document frequencies can come straight from the FTS index through an
+ * fts5vocab table, without a separate pass over every issue.
+ *
+ * Scores are cosine similarities between 0 and 1. Summary words count twice:
+ * two ballot comments about the same problem tend to share a title more than
+ * a description.
+ */
+
+import { Database } from "bun:sqlite";
+import { wikiToText } from "./wiki";
+
+export type TermVector = Map<string, number>;
+
+const SUMMARY_WEIGHT = 2;
+
+// Words too common in any issue to say anything about similarity
+const STOPWORDS = new Set([
+  "a", "about", "above", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "because",
+  "been", "before", "being", "between", "both", "but", "by", "can", "could", "do", "does", "doing", "each",
+  "eg", "etc", "for", "from", "further", "had", "has", "have", "having", "here", "how", "ie", "if", "in",
+  "into", "is", "it", "its", "itself", "just", "may", "might", "more", "most", "must", "no", "nor", "not",
+  "of", "on", "once", "only", "or", "other", "our", "out", "over", "per", "same", "shall", "should", "so",
+  "some", "such", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "those",
+  "through", "to", "too", "under", "until", "up", "use", "used", "very", "was", "we", "were", "what", "when",
+  "where", "which", "while", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+/** Words as issues_fts sees them, minus stopwords, single letters and bare numbers */
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(word => word.length > 1 && !/^\d+$/.test(word) && !STOPWORDS.has(word));
+}
+
+/** Term counts of an issue document: summary (weighted), description and related artifacts */
+export function issueTermCounts(doc: Record<string, any>): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (words: string[], weight: number) => {
+    for (const word of words) counts.set(word, (counts.get(word) || 0) + weight);
+  };
+  add(tokenize(doc.summary), SUMMARY_WEIGHT);
+  add(tokenize(wikiToText(doc.description)), 1);
+  add(tokenize([doc.related_artifacts ?? []].flat().join(" ")), 1);
+  return counts;
+}
+
+/**
+ * Inverse document frequencies for `terms` over all of issues_fts. Terms the
+ * index has never seen get the weight of a term found once.
+ */
+export function inverseDocumentFrequencies(db: Database, terms: Iterable<string>): Map<string, number> {
+  db.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS temp.issues_vocab USING fts5vocab(main, issues_fts, row)`);
+  const { cnt: total } = db.query(`SELECT COUNT(*) AS cnt FROM issues_fts`).get() as any;
+  const list = [...new Set(terms)];
+  const found = new Map((db.query(`
+    SELECT term, doc FROM temp.issues_vocab WHERE term IN (SELECT value FROM json_each($terms))
+  `).all({ $terms: JSON.stringify(list) }) as any[]).map(r => [r.term, r.doc as number]));
+  return new Map(list.map(term => [term, Math.log(1 + total / (found.get(term) || 1))]));
+}
+
+/** Unit-length TF-IDF vector (log-scaled term frequency) */
+export function tfidfVector(counts: Map<string, number>, idf: Map<string, number>): TermVector {
+  const vector: TermVector = new Map();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * (idf.get(term) || 0);
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+  }
+  return vector;
+}
+
+export function cosine(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) dot += weight * (large.get(term) || 0);
+  return dot;
+}
+
+/** The terms contributing most to the similarity of two vectors */
+export function sharedTerms(a: TermVector, b: TermVector, max = 6): string[] {
+  return [...a]
+    .filter(([term]) => b.has(term))
+    .map(([term, weight]): [string, number] => [term, weight * b.get(term)!])
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, max)
+    .map(([term]) => term);
+}
+
+/** The highest-weighted terms of a vector, for an FTS5 query that finds candidates */
+export function topTerms(vector: TermVector, max: number): string[] {
+  return [...vector].sort((x, y) => y[1] - x[1]).slice(0, max).map(([term]) => term);
+}
@@ -0,0 +1,261 @@
+/**
+ * Jira Wiki Markup Conversion
+ *
+ * Descriptions, resolutions and comments come from Jira as wiki markup
+ * ({code}, {noformat}, h2., [text|url], *bold*, ||tables||). The downloader
+ * indexes wikiToText() output so FTS never sees markup tokens, and the search
+ * CLI renders wikiToMarkdown() output in snapshots. Stored documents keep the
+ * original markup.
+ *
+ * Only the common subset of the syntax is handled; anything unrecognised is
+ * passed through unchanged. Square brackets in particular are only treated as
+ * links when they hold a URL, a `text|target` pair or a `~user` mention, so
+ * FHIR text like `value[x]` survives.
+ */
+
+export interface WikiOptions {
+  headingOffset?: number;  // shift h1./h2. down, e.g. 2 when nested under a "##" section
+}
+
+// Private-use character marking protected spans (code, links) during conversion
+const MARK = "\uE000";
+
+const URL_PATTERN = /^(https?|ftp|mailto|file):/i;
+
+interface Protected {
+  spans: string[];
+  protect(text: string): string;
+  restore(text: string): string;
+}
+
+function protectedSpans(): Protected {
+  const spans: string[] = [];
+  return {
+    spans,
+    protect(text: string) {
+      spans.push(text);
+      return `${MARK}${spans.length - 1}${MARK}`;
+    },
+    restore(text: string) {
+      // Spans may nest (a link around inline code), so restore until stable
+      let previous: string;
+      do {
+        previous = text;
+        text = text.replace(new RegExp(`${MARK}(\\d+)${MARK}`, "g"), (_, n) => spans[Number(n)]);
+      } while (text !== previous);
+      return text;
+    },
+  };
+}
+
+/** Language of a {code:...} block: `{code:xml}` or `{code:language=xml|title=...}` */
+function codeLanguage(params: string | undefined): string {
+  if (!params) return "";
+  for (const param of params.split("|")) {
+    const [name, value] = param.split("=");
+    if (value === undefined) return name.trim().toLowerCase();
+    if (name.trim() === "language") return value.trim().toLowerCase();
+  }
+  return "";
+}
+
+function fence(content: string, language: string): string {
+  const marker = content.includes("```") ? "~~~" : "```";
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function convertLink(inner: string, p: Protected): string | null {
+  if (inner.startsWith("~")) return `@${inner.slice(1)}`;
+
+  const parts = inner.split("|");
+  if (parts.length === 1) {
+    return URL_PATTERN.test(inner) ? p.protect(`<${inner.trim()}>`) : null;
+  }
+  const text = parts[0].trim();
+  const target = parts[1].trim();
+  if (target.startsWith("#")) return text;
+  if (!URL_PATTERN.test(target)) return null;
+  return `[${text}](${p.protect(target)})`;
+}
+
+function convertInline(text: string, p: Protected): string {
+  return text
+    // {{monospace}}
+    .replace(/\{\{(.+?)\}\}/g, (_, code) => p.protect(`\`${code}\``))
+    // Bare URLs, so their dashes and underscores are not read as markup
+    .replace(/(^|[\s(])((?:https?|ftp):\/\/[^\s|\]\[)]+)/g, (_, lead, url) => lead + p.protect(url))
+    // Decoration with no Markdown equivalent
+    .replace(/\{color(?::[^}]*)?\}/g, "")
+    .replace(/\{anchor(?::[^}]*)?\}/g, "")
+    // [text|url], [url], [~user]
+    .replace(/\[([^\[\]\n]+)\]/g, (match, inner) => convertLink(inner, p) ?? match)
+    // !image.png! and !image.png|thumbnail!
+    .replace(/!([^!\s|]+\.(?:png|jpe?g|gif|svg|bmp))(?:\|[^!\n]*)?!/gi, (_, src) => `![${src}](${p.protect(src)})`)
+    // *bold* - but not globs like *.json
+    .replace(/(^|[^\w*])\*(?=[^\s.*,;:])([^*\n]*?\S)\*(?![\w*])/g, "$1**$2**")
+    // -strikethrough-
+    .replace(/(^|\s)-(?=[^\s-])([^-\n]*?[^\s-])-(?=$|[\s.,;:!?)])/g, "$1~~$2~~")
+    // ??citation??
+    .replace(/\?\?(\S(?:.*?\S)?)\?\?/g, "_$1_")
+    // Forced line break
+    .replace(/\\\\/g, "\n");
+}
+
+/** Split a table row into cells, ignoring pipes inside [links] and {macros} */
+function splitCells(row: string): { header: boolean; cells: string[] } {
+  const trimmed = row.trim();
+  const header = trimmed.startsWith("||");
+  const cells: string[] = [];
+  let current = "";
+  let depth = 0;
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === "[" || ch === "{") depth++;
+    if ((ch === "]" || ch === "}") && depth > 0) depth--;
+    if (ch === "|" && depth === 0) {
+      cells.push(current);
+      current = "";
+      if (trimmed[i + 1] === "|") i++;
+      continue;
+    }
+    current += ch;
+  }
+  cells.push(current);
+
+  // Leading and trailing delimiters leave empty edge cells
+  if (cells.length > 0 && cells[0].trim() === "") cells.shift();
+  if (cells.length > 0 && cells[cells.length - 1].trim() === "") cells.pop();
+  return { header, cells };
+}
+
+function convertTable(rows: string[], p: Protected): string[] {
+  const parsed = rows.map(splitCells);
+  const width = Math.max(...parsed.map(r => r.cells.length));
+  const cell = (text: string | undefined) => convertInline((text || "").trim(), p).replace(/\n/g, " ").replace(/\|/g, "\\|");
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(cells[i])).join(" | ")} |`;
+
+  const out: string[] = [];
+  const [first, ...rest] = parsed;
+  if (first.header) {
+    out.push(line(first.cells));
+  } else {
+    out.push(line([]));
+    rest.unshift(first);
+  }
+  out.push(`|${" --- |".repeat(width)}`);
+  for (const row of rest) out.push(line(row.cells));
+  return out;
+}
+
+export function wikiToMarkdown(wiki: string | null | undefined, options: WikiOptions = {}): string {
+  if (!wiki) return "";
+  const p = protectedSpans();
+  const offset = options.headingOffset || 0;
+
+  let text = wiki.replace(/\r\n?/g, "\n");
+
+  // {code} and {noformat} bodies are verbatim; single-line ones inside a sentence become inline code
+  text = text.replace(/\{(code|noformat)(?::([^}]*))?\}([\s\S]*?)\{\1\}/g, (_, macro, params, body: string) => {
+    const content = body.replace(/^\n+|\n+$/g, "");
+    if (!content.includes("\n") && !body.includes("\n")) return p.protect(`\`${content}\``);
+    const language = macro === "code" ? codeLanguage(params) : "";
+    return `\n${p.protect(fence(content, language))}\n`;
+  });
+
+  // Put block macros on their own lines so the line pass can track them
+  text = text.replace(/\{(quote|panel(?::[^}]*)?)\}/g, "\n{$1}\n");
+
+  const lines = text.split("\n");
+  const out: string[] = [];
+  let inQuote = false;
+  const emit = (line: string) => out.push(inQuote ? `> ${line}`.trimEnd() : line);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed === "{quote}") {
+      // Drop the blank lines the macro split left just inside the quote
+      while (inQuote && out[out.length - 1] === ">") out.pop();
+      inQuote = !inQuote;
+      if (inQuote) {
+        if (out.length > 0 && out[out.length - 1] !== "") out.push("");
+        while (i + 1 < lines.length && lines[i + 1].trim() === "") i++;
+      }
+      continue;
+    }
+    const panel = trimmed.match(/^\{panel(?::(.*))?\}$/);
+    if (panel) {
+      const title = panel[1]?.split("|").find(param => param.startsWith("title="));
+      if (title) emit(`**${title.slice("title=".length)}**`);
+      continue;
+    }
+
+    const heading = trimmed.match(/^h([1-6])\.\s+(.*)$/);
+    if (heading) {
+      const level = Math.min(6, Number(heading[1]) + offset);
+      emit(`${"#".repeat(level)} ${convertInline(heading[2], p)}`);
+      continue;
+    }
+
+    const blockquote = trimmed.match(/^bq\.\s+(.*)$/);
+    if (blockquote) {
+      out.push(`> ${convertInline(blockquote[1], p)}`);
+      continue;
+    }
+
+    if (/^-{4,}$/.test(trimmed)) {
+      emit("---");
+      continue;
+    }
+
+    // * item, ** nested, # numbered, *# mixed
+    const list = trimmed.match(/^([*#]+|-)\s+(.*)$/);
+    if (list) {
+      const markers = list[1];
+      const depth = markers === "-" ? 1 : markers.length;
+      const bullet = markers.endsWith("#") ? "1." : "-";
+      emit(`${"  ".repeat(depth - 1)}${bullet} ${convertInline(list[2], p)}`);
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      const rows = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith("|")) rows.push(lines[++i]);
+      if (out.length > 0 && out[out.length - 1].trim() !== "") emit("");
+      for (const row of convertTable(rows, p)) emit(row);
+      if (i + 1 < lines.length && lines[i + 1].trim() !== "") emit("");
+      continue;
+    }
+
+    emit(convertInline(line, p));
+  }
+
+  // Collapse the blank lines left behind by macros before restoring code blocks
+  const markdown = out.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  return p.restore(markdown);
+}
+
+/** Markup-free text for the search index */
+export function wikiToText(wiki: string | null | undefined): string {
+  if (!wiki) return "";
+  return wikiToMarkdown(wiki)
+    .split("\n")
+    .filter(line => !/^\s*(```|~~~)/.test(line))
+    .filter(line => !/^\|?(\s*-{3,}\s*\|)+\s*$/.test(line) && line.trim() !== "---")
+    .map(line => line.startsWith("|")
+      ? line.split(/(?<!\\)\|/).map(cell => cell.trim()).filter(Boolean).join("  ")
+      : line)
+    .map(line => line
+      .replace(/^#{1,6}\s+/, "")
+      .replace(/^(>\s?)+/, "")
+      .replace(/^\s*(?:-|\d+\.)\s+/, "")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1")
+      .replace(/<((?:https?|ftp|mailto|file):[^>]+)>/g, "$1")
+      .replace(/\*\*|~~|`/g, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
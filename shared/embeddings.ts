@@ -0,0 +1,272 @@
+/**
+ * Embeddings for Semantic Search
+ *
+ * Both databases can carry an `embeddings` table: one vector per issue or
+ * message and provider, written by jira/embed.ts and zulip/embed.ts and
+ * searched by `--semantic` / `--hybrid` in the search CLIs. Hybrid search
+ * combines the vector ranking with the FTS ranking by reciprocal-rank fusion.
+ *
+ * Providers are pluggable: anything implementing EmbeddingProvider can be
+ * added with registerProvider(). The built-in `hashed-ngrams` provider needs
+ * no model or network - it hashes words, word pairs and character trigrams
+ * into a fixed-size vector - so it is deterministic and works offline. It
+ * catches shared vocabulary and spelling variants rather than meaning, but is
+ * a baseline that any model-backed provider can replace.
+ *
+ * Vectors from different providers never mix: each row records its provider
+ * and searches only read the provider they embed the query with. Full
+ * rebuilds carry the vectors over from the live database, since a
+ * model-backed provider can be slow or costly to run again.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+
+export interface EmbeddingProvider {
+  name: string;         // stored with each vector
+  dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export const DEFAULT_PROVIDER = "hashed-ngrams";
+
+// Reciprocal-rank fusion constant; 60 is the usual choice and damps the top ranks
+export const RRF_K = 60;
+
+const providers = new Map<string, () => EmbeddingProvider>([
+  ["hashed-ngrams", () => hashedNgramProvider()],
+]);
+
+export function registerProvider(name: string, factory: () => EmbeddingProvider): void {
+  providers.set(name, factory);
+}
+
+export function providerNames(): string[] {
+  return [...providers.keys()];
+}
+
+export function getProvider(name = DEFAULT_PROVIDER): EmbeddingProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${name}" (available: ${providerNames().join(", ")})`);
+  }
+  return factory();
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature hashing over words (weight 1), adjacent word pairs (0.5) and the
+ * character trigrams of each word (0.25), with a hash-derived sign so
+ * collisions cancel out rather than pile up. Unit length.
+ */
+export function hashedNgramProvider(dimensions = 256): EmbeddingProvider {
+  const vectorFor = (text: string): Float32Array => {
+    const vector = new Float32Array(dimensions);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+    const words = text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .split(/[^\p{L}\p{N}_]+/u)
+      .filter(Boolean);
+    words.forEach((word, n) => {
+      add(`w:${word}`, 1);
+      if (n > 0) add(`b:${words[n - 1]} ${word}`, 0.5);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.25);
+    });
+    return normalize(vector);
+  };
+  return {
+    name: "hashed-ngrams",
+    dimensions,
+    embed: async texts => texts.map(vectorFor),
+  };
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function createEmbeddingTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS embeddings (
+      id TEXT NOT NULL,         -- issue key or message id
+      provider TEXT NOT NULL,
+      vector BLOB NOT NULL,     -- float32, unit length
+      text_hash TEXT NOT NULL,  -- of the embedded text, to skip unchanged items
+      PRIMARY KEY (provider, id)
+    ) WITHOUT ROWID
+  `);
+}
+
+/** Carry the vectors of the database being replaced into a full rebuild */
+export function copyEmbeddingRows(db: Database, fromPath: string) {
+  if (!existsSync(fromPath)) return;
+  const source = new Database(fromPath, { readonly: true });
+  const hasRows = source.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'embeddings'`).get();
+  source.close();
+  if (!hasRows) return;
+
+  db.exec(`ATTACH DATABASE '${fromPath.replace(/'/g, "''")}' AS previous`);
+  db.exec(`INSERT OR IGNORE INTO embeddings SELECT * FROM previous.embeddings`);
+  db.exec(`DETACH DATABASE previous`);
+}
+
+export function hasEmbeddings(db: Database, provider: EmbeddingProvider): boolean {
+  const table = db.query(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'embeddings'`).get();
+  return !!table && !!db.query(`SELECT 1 FROM embeddings WHERE provider = $provider LIMIT 1`).get({ $provider: provider.name });
+}
+
+export interface EmbedCounts {
+  embedded: number;
+  unchanged: number;
+  removed: number;  // items no longer in the database
+}
+
+/**
+ * Bring the provider's vectors in line with `items`: embed new and changed
+ * texts in batches, and drop vectors of items that are gone.
+ */
+export async function updateEmbeddings(
+  db: Database,
+  provider: EmbeddingProvider,
+  items: Iterable<{ id: string; text: string }>,
+  batchSize = 256,
+  onProgress?: (counts: EmbedCounts) => void,
+): Promise<EmbedCounts> {
+  createEmbeddingTable(db);
+  const counts: EmbedCounts = { embedded: 0, unchanged: 0, removed: 0 };
+  const stored = new Map<string, string>();
+  for (const row of db.query(`SELECT id, text_hash FROM embeddings WHERE provider = $provider`)
+    .iterate({ $provider: provider.name }) as Iterable<any>) {
+    stored.set(row.id, row.text_hash);
+  }
+
+  const upsert = db.prepare(`
+    INSERT INTO embeddings (id, provider, vector, text_hash) VALUES (?, ?, ?, ?)
+    ON CONFLICT(provider, id) DO UPDATE SET vector = excluded.vector, text_hash = excluded.text_hash
+  `);
+  const seen = new Set<string>();
+  let batch: { id: string; text: string; hash: string }[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const vectors = await provider.embed(batch.map(item => item.text));
+    db.transaction(() => {
+      batch.forEach((item, n) => {
+        const vector = vectors[n];
+        upsert.run(item.id, provider.name, new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength), item.hash);
+      });
+    })();
+    counts.embedded += batch.length;
+    batch = [];
+    onProgress?.(counts);
+  };
+
+  for (const item of items) {
+    seen.add(item.id);
+    const hash = Bun.hash(item.text).toString(36);
+    if (stored.get(item.id) === hash) {
+      counts.unchanged++;
+      continue;
+    }
+    batch.push({ ...item, hash });
+    if (batch.length >= batchSize) await flush();
+  }
+  await flush();
+
+  const remove = db.prepare(`DELETE FROM embeddings WHERE provider = ? AND id = ?`);
+  db.transaction(() => {
+    for (const id of stored.keys()) {
+      if (!seen.has(id)) {
+        remove.run(provider.name, id);
+        counts.removed++;
+      }
+    }
+  })();
+  return counts;
+}
+
+export interface VectorHit {
+  id: string;
+  similarity: number;  // cosine, -1 to 1
+}
+
+/**
+ * The `limit` stored items closest to the query text, best first. With
+ * `allowed`, only those ids are read, by primary key; without, every vector
+ * of the provider is scanned. Only the best `limit` hits are held in memory,
+ * but a full scan still reads every vector: fine for the Jira database, too
+ * much for all of Zulip, which narrows to FTS candidates first.
+ */
+export async function vectorSearch(
+  db: Database,
+  provider: EmbeddingProvider,
+  query: string,
+  limit: number,
+  allowed?: Set<string>,
+): Promise<VectorHit[]> {
+  if (limit <= 0) return [];
+  const [target] = await provider.embed([query]);
+  const rows = allowed
+    ? db.query(`SELECT id, vector FROM embeddings WHERE provider = $provider AND id IN (SELECT value FROM json_each($ids))`)
+      .iterate({ $provider: provider.name, $ids: JSON.stringify([...allowed]) })
+    : db.query(`SELECT id, vector FROM embeddings WHERE provider = $provider`)
+      .iterate({ $provider: provider.name });
+
+  const hits: VectorHit[] = [];  // best first, at most `limit`
+  for (const row of rows as Iterable<any>) {
+    // Float32Array views need 4-byte alignment, which a BLOB may not have
+    const bytes = row.vector as Uint8Array;
+    const vector = bytes.byteOffset % 4 === 0
+      ? new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4)
+      : new Float32Array(bytes.slice().buffer);
+    const similarity = dot(target, vector);
+    if (hits.length === limit && similarity <= hits[limit - 1].similarity) continue;
+    let low = 0;
+    let high = hits.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (hits[mid].similarity >= similarity) low = mid + 1;
+      else high = mid;
+    }
+    hits.splice(low, 0, { id: row.id, similarity });
+    if (hits.length > limit) hits.pop();
+  }
+  return hits;
+}
+
+/** Reciprocal-rank fusion: each ranking adds 1 / (RRF_K + rank) to the ids it contains */
+export function reciprocalRankFusion(rankings: string[][], k = RRF_K): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, n) => scores.set(id, (scores.get(id) || 0) + 1 / (k + n + 1)));
+  }
+  return [...scores]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,62 @@
+/**
+ * FHIR Tokenization Regression Check
+ *
+ * Indexes the documents in fhir-tokens-corpus.json the way issues_fts and
+ * messages_fts are indexed (FTS_TOKENIZER plus a fhir_terms column) and checks
+ * that every query matches exactly the documents listed for it.
+ *
+ * Usage:
+ *   bun run shared/fhir-tokens-check.ts
+ *   bun run shared/fhir-tokens-check.ts --verbose   # also show passing queries
+ */
+
+import { Database } from "bun:sqlite";
+import { readFileSync } from "fs";
+import { FTS_TOKENIZER, fhirQuery, fhirTerms } from "./fhir-tokens";
+
+interface Corpus {
+  documents: Record<string, string>;
+  queries: { query: string; matches: string[]; note?: string }[];
+}
+
+const CORPUS_PATH = new URL("./fhir-tokens-corpus.json", import.meta.url).pathname;
+
+function main() {
+  const verbose = Bun.argv.includes("--verbose");
+  const corpus: Corpus = JSON.parse(readFileSync(CORPUS_PATH, "utf-8"));
+
+  const db = new Database(":memory:");
+  db.exec(`CREATE VIRTUAL TABLE docs USING fts5(id UNINDEXED, text, fhir_terms, tokenize="${FTS_TOKENIZER}")`);
+  const insert = db.prepare(`INSERT INTO docs (id, text, fhir_terms) VALUES (?, ?, ?)`);
+  for (const [id, text] of Object.entries(corpus.documents)) {
+    insert.run(id, text, fhirTerms(text));
+  }
+
+  const search = db.prepare(`SELECT id FROM docs WHERE docs MATCH ? ORDER BY id`);
+  let failures = 0;
+  for (const c of corpus.queries) {
+    const rewritten = fhirQuery(c.query);
+    let found: string[];
+    try {
+      found = (search.all(rewritten) as any[]).map(r => r.id);
+    } catch (error: any) {
+      found = [`error: ${error.message}`];
+    }
+    const expected = [...c.matches].sort();
+    const ok = found.join(",") === expected.join(",");
+    if (!ok) failures++;
+    if (!ok || verbose) {
+      console.log(`${ok ? "ok  " : "FAIL"}  ${c.query}${rewritten !== c.query ? `  (as ${rewritten})` : ""}`);
+      if (!ok) {
+        console.log(`        expected: ${expected.join(", ") || "nothing"}`);
+        console.log(`        found:    ${found.join(", ") || "nothing"}`);
+      }
+    }
+  }
+
+  db.close();
+  console.log(`\n${corpus.queries.length - failures}/${corpus.queries.length} queries match as expected`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
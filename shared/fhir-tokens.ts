@@ -0,0 +1,95 @@
+/**
+ * FHIR-Aware Tokenization
+ *
+ * SQLite's unicode61 tokenizer splits `Observation.value[x]` into three
+ * unrelated words, keeps `CapabilityStatement` as one word that "capability
+ * statement" never finds, and cannot tell `_lastUpdated` from `lastUpdated`.
+ * bun:sqlite cannot register a custom FTS5 tokenizer, so this layer works on
+ * both sides of the index instead:
+ *
+ *   - Both FTS tables use FTS_TOKENIZER, which keeps underscores inside tokens
+ *     (`_lastUpdated` and `snake_case` stay whole).
+ *   - Each row gets an extra `fhir_terms` column from fhirTerms(): every FHIR
+ *     identifier in the text, followed by its path key and its parts, e.g.
+ *     `Observation.valueQuantity observation_valuequantity observation value quantity`.
+ *   - fhirQuery() rewrites element paths in a query to the same path key.
+ *
+ * shared/fhir-tokens-check.ts runs the regression corpus in
+ * shared/fhir-tokens-corpus.json against these rules.
+ */
+
+/** FTS5 `tokenize` option for issues_fts, comments_fts and messages_fts */
+export const FTS_TOKENIZER = "unicode61 tokenchars '_'";
+
+// Element paths (Observation.value[x], meta.lastUpdated, Bundle.entry[0].resource)
+// and choice elements (value[x]). The first segment needs two characters, so
+// abbreviations like "e.g." are left alone.
+const PATH_PATTERN = /\b(?:[A-Za-z][A-Za-z0-9]+(?:\[\w*\])?(?:\.[A-Za-z_][A-Za-z0-9_]*(?:\[\w*\])?)+|[A-Za-z][A-Za-z0-9]*\[x\])/g;
+const CHOICE_PATTERN = /[A-Za-z][A-Za-z0-9]*\[x\]/g;
+
+// Identifiers worth splitting: CapabilityStatement, valueCodeableConcept, _lastUpdated, must_support
+const IDENTIFIER_PATTERN = /(?<!\w)(?:_[A-Za-z][A-Za-z0-9_]*|[A-Za-z][A-Za-z0-9]*(?:[A-Z_][A-Za-z0-9]*)+)/g;
+
+/** Words of one identifier: valueCodeableConcept -> value codeable concept, HTTPVerb -> http verb */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/\[(\w*)\]/g, " $1 ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/([0-9])([A-Z][a-z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s._]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+/** Single token standing for a whole element path: Observation.value[x] -> observation_value_x */
+export function pathKey(path: string): string {
+  return path
+    .toLowerCase()
+    .replace(/\[(\w*)\]/g, "_$1")
+    .replace(/\./g, "_")
+    .replace(/_+$/, "");
+}
+
+function isIdentifier(token: string): boolean {
+  const bare = token.replace(/^_/, "");
+  // At least two words, or a leading underscore (search parameters like _id)
+  return token.startsWith("_") || splitIdentifier(bare).length > 1;
+}
+
+/** The fhir_terms column for a piece of text: each FHIR identifier with its key and parts */
+export function fhirTerms(text: string | null | undefined): string {
+  if (!text) return "";
+  const terms: string[] = [];
+  const seen = new Set<string>();
+
+  for (const path of text.match(PATH_PATTERN) || []) {
+    if (seen.has(path)) continue;
+    seen.add(path);
+    terms.push(`${path} ${pathKey(path)} ${splitIdentifier(path).join(" ")}`);
+  }
+  // Choice elements inside longer paths: Observation.value[x] also mentions value[x]
+  for (const choice of text.match(CHOICE_PATTERN) || []) {
+    if (seen.has(choice)) continue;
+    seen.add(choice);
+    terms.push(`${choice} ${pathKey(choice)}`);
+  }
+  for (const identifier of text.match(IDENTIFIER_PATTERN) || []) {
+    if (seen.has(identifier) || !isIdentifier(identifier)) continue;
+    seen.add(identifier);
+    terms.push(`${identifier} ${splitIdentifier(identifier).join(" ")}`);
+  }
+  return terms.join("\n");
+}
+
+/**
+ * Rewrite element paths in an FTS5 query to their path keys, so
+ * `Observation.value[x] AND required` is valid FTS5 and matches the path
+ * exactly. Quoted phrases and everything else pass through unchanged.
+ */
+export function fhirQuery(query: string): string {
+  return query
+    .split(/("[^"]*")/)
+    .map(part => part.startsWith('"') ? part : part.replace(PATH_PATTERN, pathKey))
+    .join("");
+}
@@ -0,0 +1,175 @@
+/**
+ * Ingest Run Ledger
+ *
+ * Every download records one row in `ingest_runs`: what kind of run it was,
+ * when it started and finished, how many rows it inserted, updated or skipped
+ * as unchanged, the errors it hit and how it ended. Issue and message rows
+ * carry the id of the run that last inserted or changed them.
+ *
+ * Counts are saved with each batch, inside the batch's transaction, so an
+ * interrupted run still shows what it got done.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+
+export type IngestMode = "full" | "resume" | "since-last";
+export type IngestStatus = "running" | "completed" | "incomplete" | "failed";
+export type RowOutcome = "inserted" | "updated" | "skipped";
+
+export interface IngestRun {
+  id: number;
+  mode: IngestMode;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+export function createIngestTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ingest_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mode TEXT NOT NULL,            -- 'full', 'resume' or 'since-last'
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      inserted INTEGER NOT NULL DEFAULT 0,
+      updated INTEGER NOT NULL DEFAULT 0,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      errors INTEGER NOT NULL DEFAULT 0,
+      error_messages TEXT,           -- JSON array
+      status TEXT NOT NULL,          -- 'running', 'completed', 'incomplete' or 'failed'
+      details TEXT                   -- JSON: query, streams, ...
+    )
+  `);
+}
+
+/** Carry earlier runs over from another database (e.g. live -> staging) */
+export function copyIngestRuns(db: Database, fromPath: string) {
+  if (!existsSync(fromPath)) return;
+  const source = new Database(fromPath, { readonly: true });
+  const hasRuns = hasLedger(source);
+  source.close();
+  if (!hasRuns) return;
+
+  db.exec(`ATTACH DATABASE '${fromPath.replace(/'/g, "''")}' AS previous`);
+  db.exec(`INSERT OR IGNORE INTO ingest_runs SELECT * FROM previous.ingest_runs`);
+  db.exec(`DETACH DATABASE previous`);
+}
+
+export function startIngestRun(db: Database, mode: IngestMode, details: Record<string, any> = {}): IngestRun {
+  const result = db.prepare(`
+    INSERT INTO ingest_runs (mode, started_at, status, details) VALUES (?, ?, 'running', ?)
+  `).run(mode, new Date().toISOString(), JSON.stringify(details));
+  return { id: Number(result.lastInsertRowid), mode, inserted: 0, updated: 0, skipped: 0, errors: [] };
+}
+
+/** Save the running counts - call inside each batch's transaction */
+export function saveIngestRun(db: Database, run: IngestRun) {
+  db.prepare(`
+    UPDATE ingest_runs
+    SET inserted = ?, updated = ?, skipped = ?, errors = ?, error_messages = ?
+    WHERE id = ?
+  `).run(run.inserted, run.updated, run.skipped, run.errors.length, JSON.stringify(run.errors), run.id);
+}
+
+export function finishIngestRun(db: Database, run: IngestRun, status: Exclude<IngestStatus, "running">) {
+  saveIngestRun(db, run);
+  db.prepare(`UPDATE ingest_runs SET finished_at = ?, status = ? WHERE id = ?`)
+    .run(new Date().toISOString(), status, run.id);
+}
+
+function hasLedger(db: Database): boolean {
+  return !!db.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'ingest_runs'`).get();
+}
+
+/** Recent runs, newest first; empty for databases without a ledger */
+export function listIngestRuns(db: Database, limit: number): any[] {
+  if (!hasLedger(db)) return [];
+  return db.query(`SELECT * FROM ingest_runs ORDER BY id DESC LIMIT ?`).all(limit) as any[];
+}
+
+export function getIngestRun(db: Database, id: number): any | null {
+  if (!hasLedger(db)) return null;
+  return db.query(`SELECT * FROM ingest_runs WHERE id = ?`).get(id) as any;
+}
+
+function duration(run: any): string {
+  if (!run.finished_at) return "-";
+  const seconds = Math.round((Date.parse(run.finished_at) - Date.parse(run.started_at)) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(seconds / 3600)}h${String(Math.floor(seconds / 60) % 60).padStart(2, "0")}m`;
+}
+
+/** Table of runs for the search CLIs' `ingest-log` command */
+export function formatIngestRuns(runs: any[]): string {
+  if (runs.length === 0) return "No ingest runs recorded (database predates the ingest ledger).";
+  const lines = [
+    `${"Run".padStart(4)}  ${"Mode".padEnd(10)}  ${"Started (UTC)".padEnd(19)}  ${"Took".padStart(7)}  ${"Inserted".padStart(8)}  ${"Updated".padStart(8)}  ${"Skipped".padStart(8)}  ${"Errors".padStart(6)}  Status`,
+  ];
+  for (const r of runs) {
+    lines.push(
+      `${String(r.id).padStart(4)}  ${r.mode.padEnd(10)}  ${r.started_at.slice(0, 19).replace("T", " ")}  ` +
+      `${duration(r).padStart(7)}  ${String(r.inserted).padStart(8)}  ${String(r.updated).padStart(8)}  ` +
+      `${String(r.skipped).padStart(8)}  ${String(r.errors).padStart(6)}  ${r.status}`
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Parsed JSON columns, for --json output and run details */
+export function expandIngestRun(run: any): any {
+  return {
+    ...run,
+    error_messages: run.error_messages ? JSON.parse(run.error_messages) : [],
+    details: run.details ? JSON.parse(run.details) : {},
+  };
+}
+
+/** How a search CLI shows the rows one run added or changed */
+export interface IngestLogView {
+  itemsKey: string;                                                // --json key: "issues", "messages"
+  heading(limit: number): string;                                  // text above the rows
+  changedRows(db: Database, runId: number, limit: number): any[];
+  toJson(row: any): any;
+  detailLines(details: Record<string, any>): string[];             // e.g. the run's JQL or streams
+  render(rows: any[]): void;
+}
+
+/**
+ * The search CLIs' `ingest-log` command: recent runs, or one run with its
+ * errors and the rows it last changed. Closes db.
+ */
+export function showIngestLog(db: Database, runId: string, limit: number, json: boolean, view: IngestLogView) {
+  if (!runId) {
+    const runs = listIngestRuns(db, limit);
+    db.close();
+    console.log(json ? JSON.stringify(runs.map(expandIngestRun), null, 2) : formatIngestRuns(runs));
+    return;
+  }
+
+  const run = getIngestRun(db, parseInt(runId, 10));
+  if (!run) {
+    db.close();
+    console.error(`No ingest run ${runId}`);
+    process.exit(1);
+  }
+  const rows = view.changedRows(db, run.id, limit);
+  db.close();
+
+  const details = expandIngestRun(run);
+  if (json) {
+    console.log(JSON.stringify({ ...details, [view.itemsKey]: rows.map(view.toJson) }, null, 2));
+    return;
+  }
+
+  console.log(formatIngestRuns([run]));
+  for (const line of view.detailLines(details.details)) console.log(`\n${line}`);
+  if (details.error_messages.length > 0) {
+    console.log("\nErrors:");
+    for (const error of details.error_messages) console.log(`  - ${error}`);
+  }
+  console.log(`\n${view.heading(limit)}`);
+  view.render(rows);
+}
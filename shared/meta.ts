@@ -0,0 +1,138 @@
+/**
+ * Database Metadata and Schema Migrations
+ *
+ * Both databases carry a key/value `meta` table recording when and how they
+ * were generated and which schema version they use. Downloaders create fresh
+ * databases at the current version and bring existing ones up to date with
+ * runMigrations() before writing to them; search CLIs call checkSchema() and
+ * warn when a database is older or newer than they expect.
+ *
+ * Databases from before the meta table existed count as schema version 1.
+ */
+
+import { Database } from "bun:sqlite";
+import { dirname } from "path";
+
+export interface Migration {
+  version: number;       // schema version after this migration
+  description: string;
+  up?(db: Database): void;
+  rebuild?: string[];    // derived tables to refill from stored data (see runMigrations)
+}
+
+export function createMetaTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+}
+
+function hasMetaTable(db: Database): boolean {
+  return !!db.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'meta'`).get();
+}
+
+/** All meta values; empty for databases without a meta table */
+export function readMeta(db: Database): Record<string, string> {
+  if (!hasMetaTable(db)) return {};
+  const rows = db.query(`SELECT key, value FROM meta ORDER BY key`).all() as any[];
+  return Object.fromEntries(rows.map(r => [r.key, r.value]));
+}
+
+export function setMeta(db: Database, values: Record<string, string | number>) {
+  createMetaTable(db);
+  const upsert = db.prepare(`INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)`);
+  for (const [key, value] of Object.entries(values)) {
+    upsert.run(key, String(value));
+  }
+}
+
+export function getSchemaVersion(db: Database): number {
+  const version = readMeta(db).schema_version;
+  return version ? parseInt(version, 10) : 1;
+}
+
+/** Version of the last migration - what a fresh database is created at */
+export function latestVersion(migrations: Migration[]): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 1;
+}
+
+/**
+ * Apply every migration newer than the database's schema version, in one
+ * transaction. Refuses databases built by a newer downloader.
+ *
+ * A derived table (an index over the stored documents) named in the
+ * `rebuild` list of several pending migrations is refilled only once, after
+ * all their `up` steps, by its function in `rebuilders`, in the order they
+ * are listed: a rebuild always produces the current shape, so an old database
+ * does not need every intermediate one.
+ */
+export function runMigrations(db: Database, migrations: Migration[], rebuilders: Record<string, (db: Database) => void> = {}) {
+  const current = getSchemaVersion(db);
+  const latest = latestVersion(migrations);
+  if (current > latest) {
+    throw new Error(`Database schema v${current} is newer than this downloader supports (v${latest}). Update the code.`);
+  }
+  const pending = migrations.filter(m => m.version > current);
+  if (pending.length === 0) return;
+
+  const rebuild = new Set(pending.flatMap(m => m.rebuild || []));
+  const unknown = [...rebuild].filter(name => !rebuilders[name]);
+  if (unknown.length > 0) throw new Error(`No rebuild function for: ${unknown.join(", ")}`);
+
+  db.exec("BEGIN");
+  try {
+    for (const migration of pending) {
+      console.log(`Migrating database schema to v${migration.version}: ${migration.description}`);
+      migration.up?.(db);
+    }
+    for (const [name, refill] of Object.entries(rebuilders)) {
+      if (!rebuild.has(name)) continue;
+      console.log(`Rebuilding ${name}`);
+      refill(db);
+    }
+    setMeta(db, { schema_version: latest });
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+/** The search CLIs' `meta` command: one value, all of them, or --json */
+export function printMeta(meta: Record<string, string>, key: string, json: boolean) {
+  if (key) {
+    if (!(key in meta)) {
+      console.error(`No meta value for ${key}`);
+      process.exit(1);
+    }
+    console.log(meta[key]);
+  } else if (json) {
+    console.log(JSON.stringify(meta, null, 2));
+  } else if (Object.keys(meta).length === 0) {
+    console.log("No metadata (database predates the meta table).");
+  } else {
+    for (const [k, v] of Object.entries(meta)) console.log(`${k.padEnd(20)} ${v}`);
+  }
+}
+
+/** Warning text for a search CLI when the schema is not what it expects, else null */
+export function checkSchema(db: Database, expected: number, migrateCommand: string): string | null {
+  const actual = getSchemaVersion(db);
+  if (actual === expected) return null;
+  if (actual < expected) {
+    return `Database schema v${actual} is older than expected (v${expected}); some commands may fail. Run: ${migrateCommand}`;
+  }
+  return `Database schema v${actual} is newer than this search tool expects (v${expected}); update the code.`;
+}
+
+/** Version of the code that built a database: git revision if available */
+export function downloaderVersion(): string {
+  const result = Bun.spawnSync(["git", "describe", "--always", "--dirty"], {
+    cwd: dirname(new URL(import.meta.url).pathname),
+    stderr: "ignore",
+  });
+  const version = result.success ? result.stdout.toString().trim() : "";
+  return version || "unknown";
+}
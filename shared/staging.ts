@@ -0,0 +1,78 @@
+/**
+ * Staged Database Rebuilds
+ *
+ * Full rebuilds are written to a staging file next to the live database and
+ * only swapped in once the download has been checked for completeness. The
+ * database being replaced is kept as a rollback copy.
+ *
+ *   data.db          live database (read by the search CLIs)
+ *   data.staging.db  rebuild in progress
+ *   data.prev.db     previous live database, kept for rollback
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, renameSync, rmSync } from "fs";
+
+const SIDECAR_SUFFIXES = ["", "-wal", "-shm"];
+
+function basePath(dbPath: string): string {
+  return dbPath.endsWith(".db") ? dbPath.slice(0, -3) : dbPath;
+}
+
+export function stagingPath(dbPath: string): string {
+  return `${basePath(dbPath)}.staging.db`;
+}
+
+export function rollbackPath(dbPath: string): string {
+  return `${basePath(dbPath)}.prev.db`;
+}
+
+/** Delete a database file along with its WAL/SHM sidecars */
+export function removeDatabaseFiles(dbPath: string) {
+  for (const suffix of SIDECAR_SUFFIXES) {
+    rmSync(`${dbPath}${suffix}`, { force: true });
+  }
+}
+
+function moveDatabaseFiles(from: string, to: string) {
+  removeDatabaseFiles(to);
+  for (const suffix of SIDECAR_SUFFIXES) {
+    if (existsSync(`${from}${suffix}`)) {
+      renameSync(`${from}${suffix}`, `${to}${suffix}`);
+    }
+  }
+}
+
+export interface CompletenessCheck {
+  label: string;
+  ok: boolean;
+}
+
+/** Run the caller's checks plus an SQLite quick_check; returns the failures */
+export function checkCompleteness(db: Database, checks: CompletenessCheck[]): string[] {
+  const failures = checks.filter(c => !c.ok).map(c => c.label);
+  const result = db.query("PRAGMA quick_check").get() as any;
+  if (result?.quick_check !== "ok") {
+    failures.push(`integrity check failed: ${result?.quick_check}`);
+  }
+  return failures;
+}
+
+/**
+ * Close the staging database and swap it in as the live database.
+ * The current live database (if any) becomes the rollback copy.
+ */
+export function promoteStagingDatabase(db: Database, dbPath: string) {
+  const staging = stagingPath(dbPath);
+  const rollback = rollbackPath(dbPath);
+
+  // Fold the WAL back into the main file so the swap moves one complete file
+  db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+  db.close();
+
+  if (existsSync(dbPath)) {
+    moveDatabaseFiles(dbPath, rollback);
+    console.log(`   Previous database kept at: ${rollback}`);
+  }
+  moveDatabaseFiles(staging, dbPath);
+}
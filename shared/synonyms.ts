@@ -0,0 +1,150 @@
+/**
+ * FHIR Terminology Synonyms
+ *
+ * FHIR names change between versions (Conformance became CapabilityStatement,
+ * R4B is 4.3) and people write resource names both as code and as prose
+ * ("operation outcome"). shared/synonyms.json groups terms that mean the same
+ * thing; expandSynonyms() rewrites an FTS5 query so each term also matches the
+ * rest of its group:
+ *
+ *   Conformance AND server  ->  (Conformance OR CapabilityStatement OR "capability statement") AND server
+ *
+ * Quoted phrases and runs of plain words are looked up, longest first.
+ * Operators, parentheses, column filters (`summary:x`) and prefix queries
+ * (`x*`) are left alone, and queries using NEAR() are not expanded at all.
+ */
+
+import { readFileSync } from "fs";
+
+export const DEFAULT_SYNONYMS_PATH = new URL("./synonyms.json", import.meta.url).pathname;
+
+export interface SynonymDictionary {
+  version: number;
+  groups: string[][];
+}
+
+export interface Expansion {
+  term: string;            // as written in the query
+  alternatives: string[];  // what it was widened with
+}
+
+export interface ExpandedQuery {
+  query: string;
+  expansions: Expansion[];
+}
+
+interface QueryToken {
+  kind: "word" | "phrase" | "operator" | "other";
+  text: string;
+}
+
+function normalize(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+let cached: { path: string; lookup: Map<string, string[]>; maxWords: number } | null = null;
+
+function loadLookup(path: string) {
+  if (cached?.path === path) return cached;
+  let dictionary: SynonymDictionary;
+  try {
+    dictionary = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Cannot read synonym dictionary ${path}: ${error.message}`);
+  }
+
+  // A term may sit in several groups (ServiceRequest replaced two resources)
+  const lookup = new Map<string, string[]>();
+  let maxWords = 1;
+  for (const group of dictionary.groups) {
+    for (const term of group) {
+      const key = normalize(term);
+      const others = group.filter(t => normalize(t) !== key);
+      lookup.set(key, [...new Set([...(lookup.get(key) || []), ...others])]);
+      maxWords = Math.max(maxWords, key.split(" ").length);
+    }
+  }
+  cached = { path, lookup, maxWords };
+  return cached;
+}
+
+function tokenize(query: string): QueryToken[] {
+  return (query.match(/"[^"]*"\*?|[()]|[^\s()"]+/g) || []).map(text => {
+    if (text.startsWith('"')) return { kind: text.endsWith('"') ? "phrase" : "other", text };
+    if (["AND", "OR", "NOT"].includes(text)) return { kind: "operator", text };
+    if (text === "(" || text === ")" || /[:*^+]/.test(text)) return { kind: "other", text };
+    return { kind: "word", text };
+  });
+}
+
+/** An alternative as FTS5 syntax: plain words stay bare, anything else is quoted */
+function render(term: string): string {
+  return /^\w+$/.test(term) ? term : `"${term.replace(/"/g, "")}"`;
+}
+
+export function expandSynonyms(query: string, path = DEFAULT_SYNONYMS_PATH): ExpandedQuery {
+  if (/\bNEAR\s*\(/.test(query)) return { query, expansions: [] };
+  const { lookup, maxWords } = loadLookup(path);
+  const tokens = tokenize(query);
+  const out: string[] = [];
+  const expansions: Expansion[] = [];
+
+  for (let i = 0; i < tokens.length; ) {
+    const token = tokens[i];
+    if (token.kind === "phrase") {
+      const alternatives = lookup.get(normalize(token.text.slice(1, -1)));
+      if (alternatives) {
+        expansions.push({ term: token.text, alternatives });
+        out.push(`(${[token.text, ...alternatives.map(render)].join(" OR ")})`);
+      } else {
+        out.push(token.text);
+      }
+      i++;
+      continue;
+    }
+    if (token.kind !== "word") {
+      out.push(token.text);
+      i++;
+      continue;
+    }
+
+    // Longest run of plain words that names a synonym group
+    let matched = 0;
+    for (let n = maxWords; n >= 1 && matched === 0; n--) {
+      const run = tokens.slice(i, i + n);
+      if (run.length === n && run.every(t => t.kind === "word") && lookup.has(normalize(run.map(t => t.text).join(" ")))) {
+        matched = n;
+      }
+    }
+    if (matched === 0) {
+      out.push(token.text);
+      i++;
+      continue;
+    }
+
+    const words = tokens.slice(i, i + matched).map(t => t.text);
+    const alternatives = lookup.get(normalize(words.join(" ")))!;
+    const original = words.length === 1 ? render(words[0]) : `(${words.map(render).join(" AND ")})`;
+    expansions.push({ term: words.join(" "), alternatives });
+    out.push(`(${[original, ...alternatives.map(render)].join(" OR ")})`);
+    i += matched;
+  }
+
+  return { query: out.join(" "), expansions };
+}
+
+/** Lines for a search CLI's --explain: the query as typed, each expansion, what FTS5 runs */
+export function explainQuery(original: string, expanded: ExpandedQuery | null, ftsQuery: string): string[] {
+  const lines = [`Query:     ${original}`];
+  if (!expanded) {
+    lines.push(`Synonyms:  not expanded (--no-expand)`);
+  } else if (expanded.expansions.length === 0) {
+    lines.push(`Synonyms:  none found`);
+  } else {
+    for (const e of expanded.expansions) {
+      lines.push(`Synonyms:  ${e.term} -> ${e.alternatives.join(", ")}`);
+    }
+  }
+  lines.push(`FTS5:      ${ftsQuery}`);
+  return lines;
+}
@@ -17,6 +17,30 @@
 import { Database } from "bun:sqlite";
 import { parseArgs } from "util";
 import { existsSync, readFileSync } from "fs";
+import {
+  checkCompleteness,
+  promoteStagingDatabase,
+  removeDatabaseFiles,
+  stagingPath,
+} from "../shared/staging";
+import {
+  downloaderVersion,
+  latestVersion,
+  runMigrations,
+  setMeta,
+  type Migration,
+} from "../shared/meta";
+import {
+  copyIngestRuns,
+  createIngestTable,
+  finishIngestRun,
+  saveIngestRun,
+  startIngestRun,
+  type IngestRun,
+} from "../shared/ingest";
+import { copyEmbeddingRows, createEmbeddingTable } from "../shared/embeddings";
+import { FTS_TOKENIZER, fhirTerms } from "../shared/fhir-tokens";
+import { SCHEMA_VERSION } from "./schema";
 
 const BASE_URL = "https://chat.fhir.org";
 const API_URL = `${BASE_URL}/api/v1`;
@@ -102,6 +126,8 @@ async function getMessages(
   const narrow = JSON.stringify([{ operator: "stream", operand: streamId }]);
   const result = await apiRequest("/messages", creds, {
     anchor: String(anchor),
+    // A numeric anchor is the last message already stored; don't fetch it again
+    ...(anchor === "oldest" ? {} : { include_anchor: "false" }),
     num_before: "0",
     num_after: String(numAfter),
     narrow,
@@ -141,26 +167,86 @@ function createDatabase(dbPath: string): Database {
       timestamp INTEGER,
       created_at TEXT,
       reactions TEXT,
+      ingest_run_id INTEGER,         -- ingest run that last inserted or changed it
+      fhir_terms TEXT,               -- FHIR identifiers and their parts, for messages_fts
       FOREIGN KEY (stream_id) REFERENCES streams(id)
     )
   `);
   
+  createFtsTable(db);
+  createIngestTable(db);
+  createEmbeddingTable(db);
+  setMeta(db, { schema_version: SCHEMA_VERSION, created_at: new Date().toISOString() });
+  
+  return db;
+}
+
+function createFtsTable(db: Database) {
   db.exec(`
     CREATE VIRTUAL TABLE messages_fts USING fts5(
       stream_name,
       topic,
       sender_name,
       content,
+      fhir_terms,
       content='messages',
-      content_rowid='id'
+      content_rowid='id',
+      tokenize="${FTS_TOKENIZER}"
     )
   `);
-  
-  return db;
 }
 
-function openDatabaseForResume(dbPath: string): Database {
-  return new Database(dbPath);
+/** FHIR identifiers in a message's topic and text (content is HTML) */
+function messageTerms(topic: string, content: string): string {
+  return fhirTerms(`${topic}\n${content.replace(/<[^>]*>/g, " ")}`);
+}
+
+// Schema changes since the original streams/messages/messages_fts layout (v1)
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "ingest_runs ledger and messages.ingest_run_id",
+    up(db) {
+      createIngestTable(db);
+      const columns = db.query("PRAGMA table_info(messages)").all() as any[];
+      if (!columns.some(c => c.name === "ingest_run_id")) {
+        db.exec(`ALTER TABLE messages ADD COLUMN ingest_run_id INTEGER`);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "FHIR-aware tokenization for messages_fts",
+    up(db) {
+      const columns = db.query("PRAGMA table_info(messages)").all() as any[];
+      if (!columns.some(c => c.name === "fhir_terms")) {
+        db.exec(`ALTER TABLE messages ADD COLUMN fhir_terms TEXT`);
+      }
+      const update = db.prepare(`UPDATE messages SET fhir_terms = ? WHERE id = ?`);
+      for (const row of db.query("SELECT id, topic, content FROM messages").iterate() as Iterable<any>) {
+        update.run(messageTerms(row.topic, row.content || ""), row.id);
+      }
+      db.exec("DROP TABLE IF EXISTS messages_fts");
+      createFtsTable(db);
+      db.exec("INSERT INTO messages_fts(messages_fts) VALUES('rebuild')");
+    },
+  },
+  {
+    version: 4,
+    description: "embeddings table for --semantic and --hybrid search",
+    up: createEmbeddingTable,
+  },
+];
+
+if (latestVersion(MIGRATIONS) !== SCHEMA_VERSION) {
+  throw new Error(`zulip/schema.ts says v${SCHEMA_VERSION} but migrations end at v${latestVersion(MIGRATIONS)}`);
+}
+
+/** Open an existing database, migrated to the current schema (also used by embed.ts) */
+export function openDatabaseForResume(dbPath: string): Database {
+  const db = new Database(dbPath);
+  runMigrations(db, MIGRATIONS);
+  return db;
 }
 
 function getLastMessageId(db: Database, streamId: number): number | null {
@@ -177,17 +263,27 @@ function insertStream(db: Database, stream: ZulipStream) {
   `).run(stream.stream_id, stream.name, stream.description, stream.is_web_public ? 1 : 0);
 }
 
-function insertMessages(db: Database, messages: ZulipMessage[]) {
+/** Store a batch of messages, counting them on the run; unchanged messages are left alone */
+function insertMessages(db: Database, messages: ZulipMessage[], run: IngestRun) {
+  const existing = db.prepare(`SELECT topic, content, reactions FROM messages WHERE id = ?`);
   const insert = db.prepare(`
     INSERT OR REPLACE INTO messages 
-    (id, stream_id, stream_name, topic, sender_id, sender_name, sender_email, content, timestamp, created_at, reactions)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, stream_id, stream_name, topic, sender_id, sender_name, sender_email, content, timestamp, created_at, reactions, ingest_run_id, fhir_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   for (const msg of messages) {
     const createdAt = new Date(msg.timestamp * 1000).toISOString();
     const reactions = msg.reactions?.length ? JSON.stringify(msg.reactions) : null;
     
+    // Messages can be edited, re-topicked or reacted to after we stored them
+    const stored = existing.get(msg.id) as any;
+    if (stored && stored.topic === msg.subject && stored.content === msg.content && stored.reactions === reactions) {
+      run.skipped++;
+      continue;
+    }
+    run[stored ? "updated" : "inserted"]++;
+    
     insert.run(
       msg.id,
       msg.stream_id,
@@ -199,7 +295,9 @@ function insertMessages(db: Database, messages: ZulipMessage[]) {
       msg.content,
       msg.timestamp,
       createdAt,
-      reactions
+      reactions,
+      run.id,
+      messageTerms(msg.subject, msg.content || "")
     );
   }
 }
@@ -211,6 +309,7 @@ function createIndexes(db: Database) {
   db.exec("CREATE INDEX IF NOT EXISTS idx_sender ON messages(sender_name)");
   db.exec("CREATE INDEX IF NOT EXISTS idx_timestamp ON messages(timestamp)");
   db.exec("CREATE INDEX IF NOT EXISTS idx_stream_topic ON messages(stream_id, topic)");
+  db.exec("CREATE INDEX IF NOT EXISTS idx_ingest_run ON messages(ingest_run_id)");
 }
 
 function updateStreamCounts(db: Database) {
@@ -231,20 +330,35 @@ async function downloadWithApi(creds: Credentials, dbPath: string, resume: boole
   console.log(`Filtering to ${streams.length} PUBLIC streams only (skipping ${allStreams.length - streams.length} private)`);
   
   let db: Database;
-  if (resume && existsSync(dbPath)) {
+  // Full rebuilds go to a staging file and only replace dbPath once complete
+  const staging = stagingPath(dbPath);
+  let rebuilding = false;
+  
+  if (resume && existsSync(staging)) {
+    console.log(`Resuming full rebuild in staging database: ${staging}`);
+    db = openDatabaseForResume(staging);
+    rebuilding = true;
+  } else if (resume && existsSync(dbPath)) {
     console.log(`Resuming from existing database: ${dbPath}`);
     db = openDatabaseForResume(dbPath);
   } else {
-    console.log(`Creating fresh database: ${dbPath}`);
-    db = createDatabase(dbPath);
+    console.log(`Creating fresh database in staging file: ${staging}`);
+    removeDatabaseFiles(staging);
+    db = createDatabase(staging);
+    copyIngestRuns(db, dbPath);
+    copyEmbeddingRows(db, dbPath);
+    rebuilding = true;
   }
   
+  const run = startIngestRun(db, resume ? "resume" : "full", { streams: streams.map(s => s.name) });
+  
   // Insert streams
   for (const stream of streams) {
     insertStream(db, stream);
   }
   
   let totalMessages = 0;
+  const failedStreams: string[] = [];
   
   // Download messages from each stream
   console.log("\n" + "=".repeat(60));
@@ -284,7 +398,8 @@ async function downloadWithApi(creds: Credentials, dbPath: string, resume: boole
         }
         
         db.exec("BEGIN");
-        insertMessages(db, result.messages);
+        insertMessages(db, result.messages, run);
+        saveIngestRun(db, run);
         db.exec("COMMIT");
         
         streamMessages += result.messages.length;
@@ -298,7 +413,9 @@ async function downloadWithApi(creds: Credentials, dbPath: string, resume: boole
         await Bun.sleep(100);
       } catch (error: any) {
         console.error(`\n        Error: ${error.message}`);
-        db.exec("ROLLBACK");
+        if (db.inTransaction) db.exec("ROLLBACK");
+        failedStreams.push(stream.name);
+        run.errors.push(`#${stream.name}: ${error.message}`);
         break;
       }
     }
@@ -315,6 +432,21 @@ async function downloadWithApi(creds: Credentials, dbPath: string, resume: boole
   
   createIndexes(db);
   updateStreamCounts(db);
+  finishIngestRun(db, run, failedStreams.length > 0 ? "incomplete" : "completed");
+  
+  // Only a download without failed streams moves the data date
+  const now = new Date().toISOString();
+  setMeta(db, { last_attempt_at: now, failed_streams: JSON.stringify(failedStreams) });
+  if (failedStreams.length === 0) {
+    setMeta(db, {
+      generated_at: now,
+      generation_mode: resume ? "resume" : "full",
+      ...(resume ? {} : { full_download_at: now }),
+      base_url: BASE_URL,
+      streams: JSON.stringify(streams.map(s => s.name)),
+      downloader_version: downloaderVersion(),
+    });
+  }
   
   // Print stats
   const msgCount = db.query("SELECT COUNT(*) as cnt FROM messages").get() as any;
@@ -323,9 +455,31 @@ async function downloadWithApi(creds: Credentials, dbPath: string, resume: boole
   console.log("\n✅ Done!");
   console.log(`   Streams: ${streamCount.cnt}`);
   console.log(`   Messages: ${msgCount.cnt}`);
-  console.log(`   Database: ${dbPath}`);
+  console.log(`   Ingest run ${run.id}: ${run.inserted} inserted, ${run.updated} updated, ${run.skipped} unchanged`);
   
-  db.close();
+  if (!rebuilding) {
+    console.log(`   Database: ${dbPath}`);
+    db.close();
+    return;
+  }
+  
+  const failures = checkCompleteness(db, [
+    { label: `download failed for: ${failedStreams.join(", ")}`, ok: failedStreams.length === 0 },
+    { label: "no messages stored", ok: msgCount.cnt > 0 },
+  ]);
+  
+  if (failures.length > 0) {
+    db.close();
+    console.log(`\n⚠️  Staging database failed the completeness check:`);
+    for (const failure of failures) console.log(`   - ${failure}`);
+    console.log(`   Live database left untouched: ${dbPath}`);
+    console.log(`   Staging database kept at: ${staging}`);
+    console.log(`   Rerun with --resume to continue the rebuild.`);
+    return;
+  }
+  
+  promoteStagingDatabase(db, dbPath);
+  console.log(`   Database: ${dbPath}`);
 }
 
 // Browser-based scraping for public streams (when no API credentials)
@@ -357,7 +511,8 @@ Options:
   --api-key <key>      Your Zulip API key
   --cred-file <path>   Path to zuliprc-style credentials file
   --output <file>      Output database path (default: fhir_chat.db)
-  --resume             Resume interrupted download
+  --resume             Resume interrupted download (continues a staged
+                       rebuild if one was left behind)
   --help               Show this help
 
 To get API credentials:
@@ -408,4 +563,4 @@ To get API credentials:
   }
 }
 
-main().catch(console.error);
+if (import.meta.main) main().catch(console.error);
@@ -0,0 +1,68 @@
+/**
+ * FHIR Zulip Embeddings
+ *
+ * Fills the `embeddings` table of the Zulip database, one vector per message
+ * from its topic and text, for `--semantic` and `--hybrid` search. Only new
+ * and edited messages are embedded, so run it after every download.
+ *
+ * Usage:
+ *   bun run zulip/embed.ts
+ *   bun run zulip/embed.ts --provider hashed-ngrams --db zulip/data.db
+ */
+
+import { Database } from "bun:sqlite";
+import { parseArgs } from "util";
+import { existsSync } from "fs";
+import { openDatabaseForResume } from "./download";
+import { DEFAULT_PROVIDER, getProvider, providerNames, updateEmbeddings } from "../shared/embeddings";
+
+/** What a message's vector is computed from: topic, then the text without HTML */
+function messageEmbeddingText(topic: string, content: string | null): string {
+  const text = (content || "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+  return `${topic}\n${text}`;
+}
+
+function* messageTexts(db: Database) {
+  for (const row of db.query("SELECT id, topic, content FROM messages ORDER BY id").iterate() as Iterable<any>) {
+    yield { id: String(row.id), text: messageEmbeddingText(row.topic, row.content) };
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      db: { type: "string", default: process.env.FHIR_ZULIP_DB || new URL("./data.db", import.meta.url).pathname },
+      provider: { type: "string", default: DEFAULT_PROVIDER },
+    },
+  });
+
+  const dbPath = values.db as string;
+  if (!existsSync(dbPath)) {
+    console.error(`No database found at ${dbPath}. Run: bun run zulip:download`);
+    process.exit(1);
+  }
+  if (!providerNames().includes(values.provider as string)) {
+    console.error(`Unknown embedding provider "${values.provider}" (available: ${providerNames().join(", ")})`);
+    process.exit(1);
+  }
+  const provider = getProvider(values.provider as string);
+  const db = openDatabaseForResume(dbPath);
+  db.exec("PRAGMA journal_mode = WAL");
+
+  console.log(`Embedding messages with ${provider.name} (${provider.dimensions} dimensions): ${dbPath}`);
+  const counts = await updateEmbeddings(db, provider, messageTexts(db), 256, c => {
+    process.stdout.write(`\r  ${c.embedded} embedded`);
+  });
+  db.close();
+
+  console.log(`\n✅ ${counts.embedded} embedded, ${counts.unchanged} unchanged, ${counts.removed} removed`);
+}
+
+main().catch(console.error);
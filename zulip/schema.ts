@@ -0,0 +1,5 @@
+/**
+ * Zulip database schema version. download.ts migrates databases up to this
+ * version; search.ts warns when a database has a different one.
+ */
+export const SCHEMA_VERSION = 4;
@@ -15,6 +15,8 @@
  *   user <name>         Find messages from a specific user
  *   recent [days]       Show recent messages (default: 7 days)
  *   stats               Show database statistics
+ *   meta [key]          Show database metadata (generation date, schema version, ...)
+ *   ingest-log [run]    List download runs, or the messages one run added or changed
  *   streams             List all streams
  *   topics <stream>     List topics in a stream
  *   sql <query>         Execute raw SQL query
@@ -22,11 +24,28 @@
 
 import { Database } from "bun:sqlite";
 import { parseArgs } from "util";
+import { SCHEMA_VERSION } from "./schema";
+import { checkSchema, printMeta, readMeta } from "../shared/meta";
+import { fhirQuery } from "../shared/fhir-tokens";
+import { expandSynonyms, explainQuery } from "../shared/synonyms";
+import { showIngestLog, type IngestLogView } from "../shared/ingest";
+import { getProvider, hasEmbeddings, providerNames, reciprocalRankFusion, vectorSearch } from "../shared/embeddings";
 
 const DB_PATH = process.env.FHIR_ZULIP_DB || new URL("./data.db", import.meta.url).pathname;
 
+// --semantic/--hybrid: how many messages each ranking contributes before fusion
+const SEMANTIC_CANDIDATES = 100;
+
+let schemaChecked = false;
+
 function getDb(): Database {
-  return new Database(DB_PATH, { readonly: true });
+  const db = new Database(DB_PATH, { readonly: true });
+  if (!schemaChecked) {
+    schemaChecked = true;
+    const warning = checkSchema(db, SCHEMA_VERSION, "bun run zulip/download.ts --cred-file <path> --resume");
+    if (warning) console.error(`⚠️  ${warning}`);
+  }
+  return db;
 }
 
 function stripHtml(html: string): string {
@@ -57,13 +76,39 @@ function formatResults(rows: any[], verbose = false): void {
     
     console.log(`\n[${time}] #${row.stream_name} > ${row.topic}`);
     console.log(`  ${row.sender_name}: ${content}${content.length >= (verbose ? 200 : 100) ? "..." : ""}`);
+    if (row.semantic) {
+      const similarity = row.semantic.similarity === null ? "not embedded yet (run zulip:embed)" : row.semantic.similarity.toFixed(2);
+      const fts = row.semantic.fts_rank ? `, FTS rank ${row.semantic.fts_rank}` : "fts_rank" in row.semantic ? ", no FTS match" : "";
+      console.log(`  Similarity: ${similarity}${fts}`);
+    }
   }
   
   console.log(`\n--- ${rows.length} message(s) ---`);
 }
 
-function fts(query: string, limit: number, json: boolean, stream?: string): void {
+interface QueryOptions {
+  expand: boolean;    // add FHIR synonyms (off with --no-expand)
+  explain: boolean;   // print how the query was rewritten
+  mode?: "semantic" | "hybrid";  // rank by embeddings, alone or fused with FTS
+  provider?: string;  // embedding provider for mode
+}
+
+/** The FTS5 query as run: synonyms expanded, FHIR paths rewritten */
+function ftsQueryFor(query: string, json: boolean, options: QueryOptions): string {
+  const expanded = options.expand ? expandSynonyms(query) : null;
+  const ftsQuery = fhirQuery(expanded ? expanded.query : query);
+  if (options.explain) {
+    // Keep --json output parseable
+    const log = json ? console.error : console.log;
+    for (const line of explainQuery(query, expanded, ftsQuery)) log(line);
+  }
+  return ftsQuery;
+}
+
+async function fts(query: string, limit: number, json: boolean, stream?: string, options: QueryOptions = { expand: true, explain: false }): Promise<void> {
+  if (options.mode) return semanticFts(query, limit, json, stream, options);
   const db = getDb();
+  const ftsQuery = ftsQueryFor(query, json, options);
   
   let sql = `
     SELECT m.id, m.stream_name, m.topic, m.sender_name, m.content, m.timestamp
@@ -72,7 +117,7 @@ function fts(query: string, limit: number, json: boolean, stream?: string): void
     WHERE messages_fts MATCH $query
   `;
   
-  const params: Record<string, any> = { $query: query, $limit: limit };
+  const params: Record<string, any> = { $query: ftsQuery, $limit: limit };
   
   if (stream) {
     sql += " AND m.stream_name LIKE $stream";
@@ -96,6 +141,72 @@ function fts(query: string, limit: number, json: boolean, stream?: string): void
   db.close();
 }
 
+/**
+ * --semantic: messages ranked by embedding similarity to the query, so ones
+ * that share none of its words can still be found.
+ * --hybrid: that ranking fused with the FTS rank (reciprocal-rank fusion).
+ * Plain fts lists newest first; these list best match first.
+ */
+async function semanticFts(query: string, limit: number, json: boolean, stream: string | undefined, options: QueryOptions): Promise<void> {
+  const provider = getProvider(options.provider);
+  const db = getDb();
+  if (!hasEmbeddings(db, provider)) {
+    console.error(`This database has no ${provider.name} embeddings. Run: bun run zulip:embed`);
+    db.close();
+    process.exit(1);
+  }
+  
+  const candidates = Math.max(SEMANTIC_CANDIDATES, limit);
+  // --stream narrows the vector scan to the messages it allows
+  const allowed = stream
+    ? new Set((db.query(`SELECT id FROM messages WHERE stream_name LIKE $stream`).all({ $stream: `%${stream}%` }) as any[]).map(r => String(r.id)))
+    : undefined;
+  const vectorHits = await vectorSearch(db, provider, query, candidates, allowed);
+  const similarity = new Map(vectorHits.map(hit => [hit.id, hit.similarity]));
+  
+  const hybrid = options.mode === "hybrid";
+  const ftsRank = new Map<string, number>();
+  let ranked: { id: string; score: number }[];
+  if (hybrid) {
+    const ftsIds = (db.query(`
+      SELECT m.id FROM messages_fts fts JOIN messages m ON m.id = fts.rowid
+      WHERE messages_fts MATCH $query ${stream ? "AND m.stream_name LIKE $stream" : ""}
+      ORDER BY fts.rank LIMIT $candidates
+    `).all({
+      $query: ftsQueryFor(query, json, options),
+      $candidates: candidates,
+      ...(stream ? { $stream: `%${stream}%` } : {}),
+    }) as any[]).map(r => String(r.id));
+    ftsIds.forEach((id, n) => ftsRank.set(id, n + 1));
+    ranked = reciprocalRankFusion([ftsIds, vectorHits.map(hit => hit.id)]);
+  } else {
+    ranked = vectorHits.map(hit => ({ id: hit.id, score: hit.similarity }));
+  }
+  const page = ranked.slice(0, limit);
+  
+  const messages = new Map((db.query(`
+    SELECT id, stream_name, topic, sender_name, content, timestamp FROM messages
+    WHERE id IN (SELECT value FROM json_each($ids))
+  `).all({ $ids: JSON.stringify(page.map(r => Number(r.id))) }) as any[]).map(r => [String(r.id), r]));
+  db.close();
+  
+  const rows = page.filter(r => messages.has(r.id)).map(r => ({
+    ...messages.get(r.id),
+    semantic: {
+      // Messages downloaded since the last zulip:embed have no vector
+      similarity: similarity.has(r.id) ? Math.round(similarity.get(r.id)! * 1000) / 1000 : null,
+      ...(hybrid ? { fts_rank: ftsRank.get(r.id) ?? null, rrf: Math.round(r.score * 10000) / 10000 } : {}),
+    },
+  }));
+  
+  if (json) {
+    console.log(JSON.stringify(rows.map(r => ({ ...r, content: stripHtml(r.content) })), null, 2));
+  } else {
+    console.log(`${hybrid ? "Hybrid" : "Semantic"} search (${provider.name}): "${query}"${stream ? ` in #${stream}` : ""}`);
+    formatResults(rows, true);
+  }
+}
+
 function searchStream(streamName: string, limit: number, json: boolean): void {
   const db = getDb();
   
@@ -200,6 +311,14 @@ function showStats(): void {
   console.log("FHIR Chat Database Statistics");
   console.log("=".repeat(60));
   
+  const meta = readMeta(db);
+  if (meta.generated_at) {
+    const mode = meta.generation_mode ? ` (${meta.generation_mode})` : "";
+    console.log(`\nData as of: ${meta.generated_at}${mode}`);
+  } else {
+    console.log(`\nData as of: unknown (database predates the meta table)`);
+  }
+  
   const msgCount = db.query("SELECT COUNT(*) as cnt FROM messages").get() as any;
   const streamCount = db.query("SELECT COUNT(*) as cnt FROM streams").get() as any;
   const topicCount = db.query("SELECT COUNT(DISTINCT topic) as cnt FROM messages").get() as any;
@@ -384,6 +503,27 @@ function execSql(query: string, json: boolean): void {
   db.close();
 }
 
+function showMeta(key: string, json: boolean): void {
+  const db = getDb();
+  const meta = readMeta(db);
+  db.close();
+  printMeta(meta, key, json);
+}
+
+// ingest-log <run>: the messages the run last changed
+const INGEST_LOG_VIEW: IngestLogView = {
+  itemsKey: "messages",
+  heading: limit => `Messages last changed by this run (newest ${limit}):`,
+  changedRows: (db, runId, limit) => db.query(`
+    SELECT id, stream_name, topic, sender_name, content, timestamp
+    FROM messages WHERE ingest_run_id = ?
+    ORDER BY id DESC LIMIT ?
+  `).all(runId, limit) as any[],
+  toJson: row => row,
+  detailLines: details => details.streams ? [`Streams: ${details.streams.join(", ")}`] : [],
+  render: rows => formatResults(rows),
+};
+
 function printHelp(): void {
   console.log(`
 FHIR Chat Search
@@ -399,7 +539,10 @@ Commands:
                        full content. Use after FTS to get full context.
   user <name>          Find messages from a specific user
   recent [days]        Show recent messages (default: 7 days)
-  stats                Show database statistics
+  stats                Show database statistics, including the data date
+  meta [key]           Show database metadata (generated_at, schema_version, streams, ...)
+  ingest-log [run-id]  List download runs (inserted/updated/skipped counts, errors,
+                       status), or show one run and the messages it added or changed
   streams              List all streams
   topics <stream>      List topics in a stream
   sql <query>          Execute raw SQL query
@@ -408,6 +551,13 @@ Options:
   --limit <n>          Max results (default: 20)
   --json               Output as JSON
   --stream <name>      Filter FTS results to a specific stream
+  --no-expand          Search the words as typed, without FHIR synonyms
+                       (by default Conformance also finds CapabilityStatement, R4B finds 4.3, ...)
+  --explain            Show how the query was expanded and what FTS5 ran
+  --semantic           Rank by embedding similarity to the query instead of FTS
+                       (needs: bun run zulip:embed)
+  --hybrid             Fuse the FTS and embedding rankings (reciprocal-rank fusion)
+  --provider <name>    Embedding provider for --semantic/--hybrid (default: hashed-ngrams)
   --help               Show this help
 
 Recommended Workflow:
@@ -418,6 +568,8 @@ Recommended Workflow:
 Examples:
   bun run src/search.ts fts "Patient resource"
   bun run src/search.ts fts "validation" --stream implementers
+  bun run src/search.ts fts "Conformance" --explain
+  bun run src/search.ts fts "server rejects unknown elements" --hybrid
   bun run src/search.ts stream implementers --limit 50
   bun run src/search.ts topic "FHIR R6"
   bun run src/search.ts thread implementers "validation error"
@@ -426,6 +578,8 @@ Examples:
   bun run src/search.ts user "Grahame Grieve"
   bun run src/search.ts recent 3
   bun run src/search.ts topics implementers
+  bun run src/search.ts ingest-log
+  bun run src/search.ts ingest-log 3 --limit 50
   bun run src/search.ts sql "SELECT COUNT(*) FROM messages"
 
 Environment:
@@ -447,6 +601,11 @@ async function main() {
       limit: { type: "string", default: "20" },
       json: { type: "boolean", default: false },
       stream: { type: "string" },
+      "no-expand": { type: "boolean", default: false },
+      explain: { type: "boolean", default: false },
+      semantic: { type: "boolean", default: false },
+      hybrid: { type: "boolean", default: false },
+      provider: { type: "string" },
     },
     allowPositionals: true,
   });
@@ -455,11 +614,25 @@ async function main() {
   const json = values.json as boolean;
   const command = positionals[0];
   const arg = positionals.slice(1).join(" ");
+  const queryOptions: QueryOptions = { expand: !values["no-expand"], explain: values.explain as boolean };
+  if (values.semantic && values.hybrid) {
+    console.error("Use either --semantic or --hybrid");
+    process.exit(1);
+  }
+  if (values.semantic) queryOptions.mode = "semantic";
+  if (values.hybrid) queryOptions.mode = "hybrid";
+  if (values.provider) {
+    if (!providerNames().includes(values.provider as string)) {
+      console.error(`Unknown embedding provider "${values.provider}" (available: ${providerNames().join(", ")})`);
+      process.exit(1);
+    }
+    queryOptions.provider = values.provider as string;
+  }
   
   switch (command) {
     case "fts":
       if (!arg) { console.error("Usage: fts <query>"); return; }
-      fts(arg, limit, json, values.stream as string);
+      await fts(arg, limit, json, values.stream as string, queryOptions);
       break;
       
     case "stream":
@@ -502,6 +675,14 @@ async function main() {
       showStats();
       break;
       
+    case "meta":
+      showMeta(arg, json);
+      break;
+      
+    case "ingest-log":
+      showIngestLog(getDb(), arg, limit, json, INGEST_LOG_VIEW);
+      break;
+      
     case "streams":
       listStreams(json);
       break;
@@ -518,7 +699,7 @@ async function main() {
       
     default:
       // Treat as FTS query
-      fts(positionals.join(" "), limit, json);
+      await fts(positionals.join(" "), limit, json, values.stream as string, queryOptions);
   }
 }
 